@@ -0,0 +1,273 @@
+#!/usr/bin/env node
+// Version: $Id:  $
+//
+//
+
+// Commentary:
+//
+// codep command line: spec status, validation and next task for CI pipelines.
+// Exit codes: 0 when every feature is complete and well-formed, 1 when a feature
+// is incomplete or malformed, 2 on usage errors.
+
+// Changelog:
+//
+//
+
+//
+// Code starts here
+// /////////////////////////////////////////////////////////////////////////////
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+    DEFAULT_SPEC_LAYOUT,
+    SpecFeature,
+    SpecFileSystem,
+    SpecLayout,
+    WORKFLOW_DEFINITION_FILE,
+    findFeatures,
+    getCurrentPhase,
+    getNextTask,
+    getTaskLabel,
+    getWorkflowLayout,
+    isFeatureComplete,
+    loadFeature,
+    readFeatureWorkflow,
+    readWorkflowDefinitions,
+    resolveSpecLayout,
+    validateFeature
+} from './specCore';
+
+const USAGE = `Usage: codep <command> [feature...] [--root <directory>] [--specs-root <directory>] [--json]
+
+Commands:
+  status     Phase, approvals and task completion of each feature
+  validate   Report malformed and incomplete specifications
+  next       The next step of each feature
+
+Options:
+  --root <directory>        Repository root (default: current directory)
+  --specs-root <directory>  Specifications directory relative to the root (default: codep.specsRoot
+                            from .vscode/settings.json, else ${DEFAULT_SPEC_LAYOUT.specsRoot})
+  --json                    Print machine-readable output`;
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {}
+
+export interface CliOptions {
+    command: string;
+    features: string[];
+    root: string;
+    specsRoot: string | null;
+    json: boolean;
+}
+
+const nodeFileSystem: SpecFileSystem = {
+    readFile: filePath => fs.readFile(filePath, 'utf8'),
+    readDirectory: async directory => (await fs.readdir(directory, { withFileTypes: true }))
+        .map(entry => ({ name: entry.name, isDirectory: entry.isDirectory() })),
+    exists: filePath => fs.access(filePath).then(() => true, () => false)
+};
+
+export function parseArguments(args: string[]): CliOptions {
+    const options: CliOptions = { command: '', features: [], root: process.cwd(), specsRoot: null, json: false };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--json') {
+            options.json = true;
+        } else if (arg === '--root') {
+            if (!args[i + 1]) {
+                throw new UsageError('--root requires a directory');
+            }
+            options.root = path.resolve(args[++i]);
+        } else if (arg === '--specs-root') {
+            if (!args[i + 1]) {
+                throw new UsageError('--specs-root requires a directory');
+            }
+            options.specsRoot = args[++i];
+        } else if (arg === '--help' || arg === '-h') {
+            options.command = 'help';
+        } else if (arg.startsWith('-')) {
+            throw new UsageError(`Unknown option ${arg}`);
+        } else if (!options.command) {
+            options.command = arg;
+        } else {
+            options.features.push(arg);
+        }
+    }
+
+    return options;
+}
+
+/**
+ * The codep.* settings of the repository's .vscode/settings.json, so CI sees the same layout as the editor
+ */
+export async function readSpecLayout(options: CliOptions): Promise<SpecLayout> {
+    let settings: Record<string, unknown> = {};
+    try {
+        const content = await fs.readFile(path.join(options.root, '.vscode', 'settings.json'), 'utf8');
+        // Settings files are JSON with comments and trailing commas
+        const json = content
+            .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, string) => string ?? '')
+            .replace(/,(\s*[}\]])/g, '$1');
+        settings = JSON.parse(json);
+    } catch {
+        // No readable workspace settings: use the defaults
+    }
+
+    return resolveSpecLayout({
+        specsRoot: options.specsRoot ?? settings['codep.specsRoot'],
+        phases: settings['codep.phases'],
+        taskPrompt: settings['codep.taskPrompt']
+    });
+}
+
+async function loadFeatures(options: CliOptions, layout: SpecLayout): Promise<SpecFeature[]> {
+    const specsDirectory = path.join(options.root, layout.specsRoot);
+    const available = await findFeatures(nodeFileSystem, specsDirectory);
+    if (available.length === 0) {
+        throw new UsageError(`No specifications found in ${specsDirectory}`);
+    }
+
+    const unknown = options.features.filter(feature => !available.includes(feature));
+    if (unknown.length > 0) {
+        throw new UsageError(`Unknown feature ${unknown.join(', ')}. Available: ${available.join(', ')}`);
+    }
+
+    // Each feature follows the workflow its feature.yml selects from .github/codep/workflow.yml
+    const definitions = await readWorkflowDefinitions(nodeFileSystem, options.root, layout);
+    definitions.errors.forEach(error => console.error(`codep: ${WORKFLOW_DEFINITION_FILE}: ${error}`));
+
+    const names = options.features.length > 0 ? options.features : available;
+    return Promise.all(names.map(async name => {
+        const directory = path.join(specsDirectory, name);
+        const workflow = await readFeatureWorkflow(nodeFileSystem, directory);
+        return loadFeature(nodeFileSystem, directory, name, getWorkflowLayout(layout, definitions, workflow));
+    }));
+}
+
+function relativePath(options: CliOptions, filePath: string): string {
+    return path.relative(options.root, filePath).split(path.sep).join('/');
+}
+
+export function status(features: SpecFeature[], options: CliOptions): number {
+    const rows = features.map(feature => ({
+        feature: feature.name,
+        workflow: feature.workflow,
+        phase: getCurrentPhase(feature),
+        approvals: Object.fromEntries(feature.phases.map(state => [
+            state.phase,
+            !state.approval ? 'missing' : state.approvalRequired || state.approval.status === 'approved' ? state.approval.status : 'not-required'
+        ])),
+        completedTasks: feature.tasks.filter(task => task.completed).length,
+        totalTasks: feature.tasks.length,
+        complete: isFeatureComplete(feature),
+        abandoned: feature.abandoned
+    }));
+
+    if (options.json) {
+        console.log(JSON.stringify(rows, null, 2));
+    } else {
+        const width = Math.max(...rows.map(row => row.feature.length));
+        for (const row of rows) {
+            const approvals = Object.entries(row.approvals).map(([phase, state]) => `${phase}:${state}`).join(' ');
+            console.log(`${row.feature.padEnd(width)}  ${row.phase.padEnd(14)}  ${`${row.completedTasks}/${row.totalTasks} tasks`.padEnd(11)}  ${approvals}`);
+        }
+    }
+
+    // Abandoned features are settled: they don't hold up the pipeline
+    return rows.every(row => row.complete || row.abandoned) ? EXIT_OK : EXIT_FAILED;
+}
+
+export function validate(features: SpecFeature[], options: CliOptions, layout: SpecLayout): number {
+    const results = features.map(feature => ({
+        feature: feature.name,
+        issues: validateFeature(feature).filter(issue => !feature.abandoned || issue.kind === 'malformed').map(issue => ({
+            ...issue,
+            path: issue.path ? relativePath(options, issue.path) : undefined,
+            line: issue.line !== undefined ? issue.line + 1 : undefined
+        }))
+    }));
+
+    if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+    } else {
+        for (const { feature, issues } of results) {
+            for (const issue of issues) {
+                const location = issue.path ? `${issue.path}${issue.line ? `:${issue.line}` : ''}` : `${layout.specsRoot}/${feature}`;
+                console.log(`${location}: ${issue.kind}: ${issue.message}`);
+            }
+        }
+        const malformed = results.reduce((count, result) => count + result.issues.filter(issue => issue.kind === 'malformed').length, 0);
+        const incomplete = results.reduce((count, result) => count + result.issues.filter(issue => issue.kind === 'incomplete').length, 0);
+        console.log(`${features.length} feature(s) checked: ${malformed} malformed, ${incomplete} incomplete`);
+    }
+
+    return results.every(result => result.issues.length === 0) ? EXIT_OK : EXIT_FAILED;
+}
+
+function next(features: SpecFeature[], options: CliOptions): number {
+    const steps = features.map(feature => {
+        const phase = getCurrentPhase(feature);
+        const task = getNextTask(feature);
+        if (phase === 'implementation' && task) {
+            return { feature: feature.name, phase, task: getTaskLabel(task), text: task.text };
+        }
+        return { feature: feature.name, phase, task: null, text: null };
+    });
+
+    if (options.json) {
+        console.log(JSON.stringify(steps, null, 2));
+    } else {
+        for (const step of steps) {
+            if (step.task) {
+                console.log(`${step.feature}: task ${step.task} ${step.text!.replace(/^\d+(?:\.\d+)*\.?\s+/, '')}`);
+            } else if (step.phase === 'complete' || step.phase === 'abandoned') {
+                console.log(`${step.feature}: ${step.phase}`);
+            } else {
+                console.log(`${step.feature}: write and approve ${step.phase}`);
+            }
+        }
+    }
+
+    return EXIT_OK;
+}
+
+export async function main(args: string[]): Promise<number> {
+    try {
+        const options = parseArguments(args);
+        const commands: Record<string, (features: SpecFeature[], options: CliOptions, layout: SpecLayout) => number> = { status, validate, next };
+
+        if (options.command === 'help') {
+            console.log(USAGE);
+            return EXIT_OK;
+        }
+        if (!commands[options.command]) {
+            throw new UsageError(options.command ? `Unknown command ${options.command}` : 'Missing command');
+        }
+
+        const layout = await readSpecLayout(options);
+        return commands[options.command](await loadFeatures(options, layout), options, layout);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            console.error(`codep: ${error.message}\n\n${USAGE}`);
+            return EXIT_USAGE;
+        }
+        console.error(`codep: ${error}`);
+        return EXIT_FAILED;
+    }
+}
+
+// Run as a command, not when imported by the tests
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
+
+// /////////////////////////////////////////////////////////////////////////////
+// Code ends here
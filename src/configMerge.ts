@@ -0,0 +1,138 @@
+// Version: $Id:  $
+// 
+// 
+
+// Commentary:
+// 
+// Three-way update of the configuration files bundled with the extension, independent of VS Code.
+// The baseline is the bundled content installed last time, the common ancestor of both sides.
+
+// Changelog:
+// 
+// 
+
+// 
+// Code starts here
+// /////////////////////////////////////////////////////////////////////////////
+
+export type ConfigUpdatePlan = 'unchanged' | 'update' | 'local' | 'merge' | 'conflict';
+
+export interface MergeResult {
+    text: string;
+    conflicts: number;
+}
+
+function sameContent(a: string, b: string): boolean {
+    return a.trim() === b.trim();
+}
+
+/**
+ * How to bring a workspace file up to the bundle: 'update' overwrites an unmodified file, 'local'
+ * keeps changes made to an unchanged bundle file, 'merge' combines changes on both sides and
+ * 'conflict' marks a modified file without a baseline to merge against
+ */
+export function planConfigUpdate(baseline: string | undefined, bundledContent: string, workspaceContent: string): ConfigUpdatePlan {
+    if (sameContent(bundledContent, workspaceContent)) {
+        return 'unchanged';
+    }
+    if (baseline === undefined) {
+        return 'conflict';
+    }
+    if (sameContent(baseline, workspaceContent)) {
+        return 'update';
+    }
+    if (sameContent(baseline, bundledContent)) {
+        return 'local';
+    }
+    return 'merge';
+}
+
+/**
+ * For each line of base, the index of the line it is matched to in other (longest common subsequence), or -1
+ */
+function matchLines(base: string[], other: string[]): number[] {
+    const width = other.length + 1;
+    const lengths = new Uint32Array((base.length + 1) * width);
+
+    for (let i = base.length - 1; i >= 0; i--) {
+        for (let j = other.length - 1; j >= 0; j--) {
+            lengths[i * width + j] = base[i] === other[j]
+                ? lengths[(i + 1) * width + j + 1] + 1
+                : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+
+    const matches = new Array<number>(base.length).fill(-1);
+    let i = 0;
+    let j = 0;
+    while (i < base.length && j < other.length) {
+        if (base[i] === other[j]) {
+            matches[i++] = j++;
+        } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return matches;
+}
+
+/**
+ * Line-based diff3: changes made on only one side are applied, identical changes are
+ * taken once, and overlapping changes are emitted between conflict markers
+ */
+export function mergeThreeWay(base: string, local: string, bundled: string): MergeResult {
+    const baseLines = base.split('\n');
+    const localLines = local.split('\n');
+    const bundledLines = bundled.split('\n');
+    const localMatches = matchLines(baseLines, localLines);
+    const bundledMatches = matchLines(baseLines, bundledLines);
+    const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+
+    const merged: string[] = [];
+    let conflicts = 0;
+    let i = 0;
+    let l = 0;
+    let b = 0;
+
+    while (i < baseLines.length || l < localLines.length || b < bundledLines.length) {
+        // Base line kept in place by both sides
+        if (i < baseLines.length && localMatches[i] === l && bundledMatches[i] === b) {
+            merged.push(baseLines[i]);
+            i++;
+            l++;
+            b++;
+            continue;
+        }
+
+        // Next base line both sides still share delimits the changed chunk
+        let next = i;
+        while (next < baseLines.length && (localMatches[next] < l || bundledMatches[next] < b)) {
+            next++;
+        }
+        const localEnd = next < baseLines.length ? localMatches[next] : localLines.length;
+        const bundledEnd = next < baseLines.length ? bundledMatches[next] : bundledLines.length;
+
+        const baseChunk = baseLines.slice(i, next);
+        const localChunk = localLines.slice(l, localEnd);
+        const bundledChunk = bundledLines.slice(b, bundledEnd);
+
+        if (sameLines(localChunk, baseChunk) || sameLines(localChunk, bundledChunk)) {
+            merged.push(...bundledChunk);
+        } else if (sameLines(bundledChunk, baseChunk)) {
+            merged.push(...localChunk);
+        } else {
+            conflicts++;
+            merged.push('<<<<<<< Workspace', ...localChunk, '=======', ...bundledChunk, '>>>>>>> Code:P bundle');
+        }
+
+        i = next;
+        l = localEnd;
+        b = bundledEnd;
+    }
+
+    return { text: merged.join('\n'), conflicts };
+}
+
+// /////////////////////////////////////////////////////////////////////////////
+// Code ends here
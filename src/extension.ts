@@ -15,10 +15,73 @@
 // /////////////////////////////////////////////////////////////////////////////
 
 import * as vscode from 'vscode';
+import * as childProcess from 'child_process';
+import {
+    PhaseApproval,
+    RequirementItem,
+    SpecDocument,
+    SpecFeature,
+    SpecFileSystem,
+    SpecLayout,
+    SpecPhaseDefinition,
+    SpecWorkflowDefinitions,
+    SteeringInclusion,
+    TaskItem,
+    TaskPlanIssue,
+    TraceabilityReport,
+    ARCHIVE_DIRECTORY,
+    FEATURE_SETTINGS_FILE,
+    WORKFLOW_DEFINITION_FILE,
+    buildSpecExport,
+    buildTraceabilityReport,
+    classifyEarsCriterion,
+    findPhaseFile,
+    findRequirementDefinition,
+    findRequirementReferences,
+    findStartableTaskIndex,
+    findTaskIndex,
+    formatSpecBundle,
+    formatTraceabilityReport,
+    getApprovalFromContent,
+    getCurrentPhase,
+    getDefaultWorkflow,
+    getExpectedTaskNumbers,
+    getSteeringInclusion,
+    getSpecPhase,
+    getTaskLabel,
+    getWorkflowLayout,
+    hashContent,
+    isFeatureComplete,
+    isPhaseComplete,
+    isUserStory,
+    lintTaskPlan,
+    loadFeature,
+    matchesGlob,
+    normalizeCriterion,
+    normalizeTaskCheckbox,
+    parseFrontMatter,
+    parseRequirementsFromContent,
+    parseTasksFromContent,
+    parseYaml,
+    readFeatureSettings,
+    readFeatureWorkflow,
+    readWorkflowDefinitions,
+    referenceCovers,
+    resolveSpecLayout,
+    serializeFeatureSettings,
+    serializeFrontMatter,
+    uppercaseEarsKeywords
+} from './specCore';
+import { mergeThreeWay, planConfigUpdate } from './configMerge';
 
 let outputChannel: vscode.OutputChannel;
 let statusBarItem: vscode.StatusBarItem;
 let taskCodeLensProvider: TaskCodeLensProvider;
+let specExplorerProvider: SpecExplorerProvider;
+let requirementsDiagnostics: vscode.DiagnosticCollection;
+let tasksDiagnostics: vscode.DiagnosticCollection;
+let hookOutputChannel: vscode.OutputChannel;
+let specModel: SpecModel;
 
 // ===== TYPES AND INTERFACES =====
 
@@ -28,101 +91,316 @@ interface BundledFile {
     content: string;
 }
 
+interface FeatureQuickPickItem extends vscode.QuickPickItem {
+    feature: string;
+}
+
 interface SpecItem extends vscode.QuickPickItem {
-    type: 'spec' | 'file';
+    type: 'spec' | 'file' | 'phase';  // 'phase': a workflow phase without a document yet
     path: string;
     phase?: string;
 }
 
+/**
+ * What triggered a task event, recorded in the feature's journal
+ */
+type TaskEventSource = 'codelens' | 'explorer' | 'agent' | 'chat' | 'command';
+
 interface TaskState {
     feature: string;
-    taskIndex: number;
+    task: string;               // Outline number of the task, which identifies it across edits of the plan
+    taskIndex: number;          // Position in the parsed plan, kept in line with the outline number by syncActiveTask
     status: 'implementing' | 'completed' | 'pending';
+    startedAt: number;
+    source?: TaskEventSource;
+}
+
+interface TaskJournalEvent {
+    type: 'started' | 'completed' | 'stopped' | 'reopened';
+    timestamp: string;
+    taskIndex: number;
+    task: string;
+    text: string;
+    source: TaskEventSource;
+    durationMs?: number;
 }
 
 interface TaskProgress {
+    feature: string | null;
     totalTasks: number;
     completedTasks: number;
     currentTask: number | null;
+    currentTaskLabel: string | null;
 }
 
-interface TaskItem {
-    index: number;
-    text: string;
-    completed: boolean;
-    line: number;
+interface CodepChatResult extends vscode.ChatResult {
+    metadata: {
+        command: string | undefined;
+        feature: string | null;
+    };
 }
 
-// ===== GLOBAL STATE =====
+interface SpecContextToolInput {
+    feature?: string;
+}
 
-let currentTaskState: TaskState | null = null;
-let taskProgress: TaskProgress = {
-    totalTasks: 0,
-    completedTasks: 0,
-    currentTask: null
-};
+interface ListTasksToolInput {
+    feature: string;
+}
 
-// Simple front-matter parser for web compatibility
-function parseFrontMatter(content: string): { content: string; data: any; } {
-    const frontMatterRegex = /^---\r?\n([\s\S]*?)\r?\n---\r?\n/;
-    const match = content.match(frontMatterRegex);
+interface StartTaskToolInput {
+    feature: string;
+    task: string;
+}
 
-    if (!match) {
-        return { content, data: {} };
-    }
+interface CompleteTaskToolInput {
+    feature?: string;
+}
+
+type SpecTreeNode =
+    | { kind: 'feature'; feature: string }
+    | { kind: 'phase'; feature: string; phase: string; path: string | null }
+    | { kind: 'task'; feature: string; path: string; task: TaskItem }
+    | { kind: 'archive' }
+    | { kind: 'archivedFeature'; feature: string; uri: vscode.Uri }
+    | { kind: 'archivedFile'; uri: vscode.Uri };
 
-    const yamlContent = match[1];
-    const remainingContent = content.slice(match[0].length);
+/**
+ * Subset of the built-in Git extension API (extensions/git/src/api/git.d.ts) used for task commits
+ */
+interface GitChange {
+    readonly uri: vscode.Uri;
+    readonly originalUri: vscode.Uri;
+}
 
-    // Simple YAML parser for basic key-value pairs
-    const data: any = {};
-    const lines = yamlContent.split('\n');
+interface GitCommit {
+    readonly hash: string;
+    readonly message: string;
+    readonly parents: string[];
+}
 
-    for (const line of lines) {
-        const colonIndex = line.indexOf(':');
-        if (colonIndex > 0) {
-            const key = line.slice(0, colonIndex).trim();
-            const value = line.slice(colonIndex + 1).trim().replace(/^["']|["']$/g, '');
-            data[key] = value;
-        }
-    }
+interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly state: {
+        readonly HEAD: { readonly commit?: string } | undefined;
+        readonly indexChanges: GitChange[];
+        readonly workingTreeChanges: GitChange[];
+        readonly untrackedChanges?: GitChange[];
+    };
+    add(paths: string[]): Promise<void>;
+    commit(message: string): Promise<void>;
+    getCommit(ref: string): Promise<GitCommit>;
+    log(options?: { maxEntries?: number; path?: string }): Promise<GitCommit[]>;
+    diffBetween(ref1: string, ref2: string): Promise<GitChange[]>;
+}
+
+interface GitAPI {
+    getRepository(uri: vscode.Uri): GitRepository | null;
+    toGitUri(uri: vscode.Uri, ref: string): vscode.Uri;
+}
+
+interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): GitAPI;
+}
+
+/**
+ * When a hook from .github/hooks runs
+ */
+type HookTrigger = 'task-started' | 'task-completed' | 'phase-saved' | 'file-saved';
+
+interface HookDefinition {
+    name: string;
+    uri: vscode.Uri;            // The hook file
+    folder: vscode.WorkspaceFolder;
+    on: HookTrigger;
+    features: string[];         // Feature names the hook is limited to, every feature when empty
+    phases: string[];           // phase-saved: phase ids, every phase when empty
+    pattern: string | null;     // file-saved: glob relative to the workspace folder
+    run: string | null;         // Shell command, run in a task terminal
+    prompt: string | null;      // Chat prompt to open
+    command: string | null;     // VS Code command to execute with args
+    args: unknown[];
+}
+
+interface TaskVerification {
+    task: string;               // Outline number of the verified task
+    command: string;
+    exitCode: number;
+    passed: boolean;
+    output: string;             // Combined stdout and stderr, truncated to its end
+}
+
+interface HookContext {
+    feature?: string | null;
+    taskIndex?: number;
+    phase?: string | null;
+    document?: vscode.TextDocument;
+}
+
+interface SteeringDocument {
+    name: string;               // File name without .md, referenced as #name for manual inclusion
+    uri: vscode.Uri;
+    inclusion: SteeringInclusion;
+    content: string;            // Body without front-matter
+}
 
-    return { content: remainingContent, data };
+interface FeatureSummary {
+    feature: string;
+    phases: { phase: string; path: string | null; approval: PhaseApproval | null }[];
+    currentPhase: string;       // First phase not yet approved, then "implementation" and "complete", or "abandoned"
+    totalTasks: number;
+    completedTasks: number;
+    implementingTask: string | null;
+    lastActivity: number | null;
 }
 
+// ===== GLOBAL STATE =====
+
+// Active task per feature, persisted in workspaceState so it survives window reloads
+const ACTIVE_TASKS_KEY = 'codep.activeTasks';
+let workspaceState: vscode.Memento | undefined;
+let activeTasks: Map<string, TaskState> = new Map();
+let taskProgress: TaskProgress = {
+    feature: null,
+    totalTasks: 0,
+    completedTasks: 0,
+    currentTask: null,
+    currentTaskLabel: null
+};
+
 // ===== TASK MANAGEMENT =====
 
 async function parseTasksFromFile(filePath: string): Promise<TaskItem[]> {
     const uri = vscode.Uri.file(filePath);
+
+    // Tasks documents of known features are already parsed in the spec model
+    const feature = isTasksDocument(filePath) ? getSpecFeature(filePath) : null;
+    const model = feature ? await loadWorkspaceFeature(feature) : null;
+    const tasksPath = model?.phases.find(state => state.phase === 'tasks')?.document?.path;
+    if (model && tasksPath && vscode.Uri.file(tasksPath).fsPath === uri.fsPath) {
+        return model.tasks;
+    }
+
     try {
         const content = await vscode.workspace.fs.readFile(uri);
-        const contentStr = Buffer.from(content).toString('utf8');
-        const lines = contentStr.split('\n');
-        const tasks: TaskItem[] = [];
-        
-        lines.forEach((line, index) => {
-            // Match tasks in format: - [ ] or - [x] with optional numbering
-            const taskMatch = line.match(/^\s*-\s*\[([x ])\]\s*(.+)$/);
-            if (taskMatch) {
-                tasks.push({
-                    index: tasks.length,
-                    text: taskMatch[2].trim(),
-                    completed: taskMatch[1] === 'x',
-                    line: index
-                });
-            }
-        });
-        
-        return tasks;
+        return parseTasksFromContent(Buffer.from(content).toString('utf8'));
     } catch (error) {
         outputChannel.appendLine(`Error parsing tasks from ${filePath}: ${error}`);
         return [];
     }
 }
 
+async function resolveTaskIndex(feature: string, identifier: number | string): Promise<number | null> {
+    const tasksFilePath = await findTasksFile(feature);
+    if (!tasksFilePath) {
+        return typeof identifier === 'number' ? identifier : null;
+    }
+
+    const tasks = await parseTasksFromFile(tasksFilePath);
+    const taskIndex = findTaskIndex(tasks, identifier);
+    return taskIndex === null ? null : findStartableTaskIndex(tasks, taskIndex);
+}
+
+// ===== ACTIVE TASK STATE =====
+
+function getActiveTask(feature: string): TaskState | null {
+    return activeTasks.get(feature) ?? null;
+}
+
+async function persistActiveTasks(): Promise<void> {
+    await workspaceState?.update(ACTIVE_TASKS_KEY, Object.fromEntries(activeTasks));
+}
+
+async function setActiveTask(state: TaskState): Promise<void> {
+    activeTasks.set(state.feature, state);
+    await persistActiveTasks();
+}
+
+async function clearActiveTask(feature: string): Promise<void> {
+    if (activeTasks.delete(feature)) {
+        await persistActiveTasks();
+    }
+}
+
+/**
+ * Find a feature's active task again by its outline number after the plan was edited, renumbered
+ * or pulled, and drop it when the number no longer exists. Returns the up-to-date state
+ */
+async function syncActiveTask(feature: string, tasks?: TaskItem[]): Promise<TaskState | null> {
+    const activeTask = getActiveTask(feature);
+    if (!activeTask) {
+        return null;
+    }
+    if (!tasks) {
+        const tasksFilePath = await findTasksFile(feature);
+        tasks = tasksFilePath ? await parseTasksFromFile(tasksFilePath) : [];
+    }
+
+    // States saved before the outline number was kept only have the position
+    const taskIndex = activeTask.task !== undefined ? findTaskIndex(tasks, activeTask.task) : findTaskIndex(tasks, activeTask.taskIndex);
+    if (taskIndex === null) {
+        outputChannel.appendLine(`Task ${activeTask.task ?? activeTask.taskIndex + 1} no longer exists in feature ${feature}, clearing its active task`);
+        await clearActiveTask(feature);
+        return null;
+    }
+
+    const task = getTaskLabel(tasks[taskIndex]);
+    if (taskIndex !== activeTask.taskIndex || task !== activeTask.task) {
+        await setActiveTask({ ...activeTask, task, taskIndex });
+    }
+    return getActiveTask(feature);
+}
+
+/**
+ * Restore active tasks saved by a previous session, dropping features and tasks that no longer exist
+ */
+async function restoreActiveTasks(): Promise<void> {
+    const saved = workspaceState?.get<Record<string, TaskState>>(ACTIVE_TASKS_KEY, {}) ?? {};
+    const features = await findSpecFeatures().catch(() => [] as string[]);
+
+    activeTasks = new Map(Object.entries(saved).filter(([feature]) => features.includes(feature)));
+    if (activeTasks.size !== Object.keys(saved).length) {
+        await persistActiveTasks();
+    }
+
+    for (const feature of [...activeTasks.keys()]) {
+        const activeTask = await syncActiveTask(feature);
+        if (activeTask) {
+            outputChannel.appendLine(`Restored active task ${activeTask.task} in feature ${feature}`);
+        }
+        await updateTaskProgress(feature);
+    }
+}
+
+/**
+ * Pick the active task an unqualified command refers to: the explicit feature, then the
+ * feature of the active editor, then the one shown in the status bar, then the most recently started
+ */
+function resolveActiveTask(feature?: string): TaskState | null {
+    if (feature) {
+        return getActiveTask(feature);
+    }
+
+    const activeEditor = vscode.window.activeTextEditor;
+    const editorFeature = activeEditor && isSpecFile(activeEditor.document.uri.fsPath)
+        ? getSpecFeature(activeEditor.document.uri.fsPath)
+        : null;
+
+    const candidates = [editorFeature, taskProgress.feature];
+    for (const candidate of candidates) {
+        if (candidate && activeTasks.has(candidate)) {
+            return getActiveTask(candidate);
+        }
+    }
+
+    return [...activeTasks.values()].sort((a, b) => b.startedAt - a.startedAt)[0] ?? null;
+}
+
+// ===== TASK PROGRESS =====
+
 async function updateTaskProgress(feature: string): Promise<void> {
-    const tasksFile = await findSpecFiles(feature);
-    const tasksFilePath = tasksFile.find(file => file.includes('03-tasks'));
+    const tasksFilePath = await findTasksFile(feature);
     
     if (tasksFilePath) {
         const tasks = await parseTasksFromFile(tasksFilePath);
@@ -133,26 +411,31 @@ async function updateTaskProgress(feature: string): Promise<void> {
         outputChannel.appendLine(`UPDATE TASK PROGRESS CALLED FROM: ${stack?.split('\n')[2]?.trim() || 'unknown'}`);
         outputChannel.appendLine(`UPDATE TASK PROGRESS: ${completedCount}/${tasks.length} tasks completed`);
         
-        // Auto-clear currentTaskState if the current task is completed in the file
-        if (currentTaskState && tasks[currentTaskState.taskIndex]?.completed) {
-            outputChannel.appendLine(`AUTO-CLEARING: Task ${currentTaskState.taskIndex + 1} is completed in file, clearing currentTaskState`);
-            currentTaskState = null;
+        // Auto-clear the feature's active task if it is completed in the file
+        const activeTask = await syncActiveTask(feature, tasks);
+        if (activeTask && tasks[activeTask.taskIndex]?.completed) {
+            outputChannel.appendLine(`AUTO-CLEARING: Task ${activeTask.task} is completed in file, clearing active task of ${feature}`);
+            await clearActiveTask(feature);
             taskCodeLensProvider?.refresh();
         }
         
+        const currentTask = getActiveTask(feature)?.taskIndex ?? null;
         taskProgress = {
+            feature,
             totalTasks: tasks.length,
             completedTasks: completedCount,
-            currentTask: currentTaskState?.taskIndex || null
+            currentTask,
+            currentTaskLabel: currentTask !== null && tasks[currentTask] ? getTaskLabel(tasks[currentTask]) : null
         };
         updateStatusBar();
+        specExplorerProvider?.refresh();
     }
 }
 
 function updateStatusBar(): void {
     if (!statusBarItem) return;
     
-    const { totalTasks, completedTasks, currentTask } = taskProgress;
+    const { feature, totalTasks, completedTasks, currentTask, currentTaskLabel } = taskProgress;
     
     if (totalTasks === 0) {
         statusBarItem.text = "$(checklist) Code:P Ready";
@@ -162,93 +445,125 @@ function updateStatusBar(): void {
     }
     
     const progressPercent = Math.round((completedTasks / totalTasks) * 100);
-    const isImplementing = currentTaskState !== null && completedTasks < totalTasks;
+    const isImplementing = currentTask !== null && completedTasks < totalTasks;
     const animatedDot = isImplementing ? ' $(sync~spin)' : '';
     
     // Debug logging
-    outputChannel.appendLine(`Status Bar Update: currentTaskState=${currentTaskState ? 'SET' : 'NULL'}, isImplementing=${isImplementing}, completed=${completedTasks}/${totalTasks}`);
+    outputChannel.appendLine(`Status Bar Update: feature=${feature}, currentTask=${currentTaskLabel ?? 'NULL'}, isImplementing=${isImplementing}, completed=${completedTasks}/${totalTasks}`);
     
     statusBarItem.text = `$(checklist) ${completedTasks}/${totalTasks} (${progressPercent}%)${animatedDot}`;
     statusBarItem.tooltip = isImplementing 
-        ? `Implementing task ${currentTask! + 1} of ${totalTasks}...`
-        : `${completedTasks} of ${totalTasks} tasks completed`;
+        ? `${feature}: implementing task ${currentTaskLabel} (${completedTasks} of ${totalTasks} tasks completed)...`
+        : `${feature}: ${completedTasks} of ${totalTasks} tasks completed`;
     statusBarItem.show();
 }
 
-async function startTaskImplementation(feature: string, taskIndex: number): Promise<void> {
-    outputChannel.appendLine(`START TASK CALLED: task ${taskIndex + 1} in feature ${feature}`);
+async function startTaskImplementation(featureName: string, task: number | string, source: TaskEventSource = 'codelens'): Promise<void> {
+    outputChannel.appendLine(`START TASK CALLED: task ${task} in feature ${featureName}`);
+    
+    const feature = await resolveFeatureKey(featureName);
+    const taskIndex = await resolveTaskIndex(feature, task);
+    if (taskIndex === null) {
+        outputChannel.appendLine(`ERROR: Task ${task} not found in feature ${feature}`);
+        return;
+    }
     
     // Safety check: Don't start already completed tasks
-    const tasksFile = await findSpecFiles(feature);
-    const tasksFilePath = tasksFile.find(file => file.includes('03-tasks'));
+    const tasksFilePath = await findTasksFile(feature);
+    let taskLabel = String(taskIndex + 1);
     if (tasksFilePath) {
         const tasks = await parseTasksFromFile(tasksFilePath);
         if (tasks[taskIndex] && tasks[taskIndex].completed) {
-            outputChannel.appendLine(`ERROR: Attempted to start already completed task ${taskIndex + 1}`);
+            outputChannel.appendLine(`ERROR: Attempted to start already completed task ${getTaskLabel(tasks[taskIndex])}`);
             return;
         }
+        if (tasks[taskIndex]) {
+            taskLabel = getTaskLabel(tasks[taskIndex]);
+        }
     }
     
-    currentTaskState = {
+    await setActiveTask({
         feature,
+        task: taskLabel,
         taskIndex,
-        status: 'implementing'
-    };
+        status: 'implementing',
+        startedAt: Date.now(),
+        source
+    });
+    await recordTaskEvent(feature, 'started', taskIndex, source);
+    await runHooks('task-started', { feature, taskIndex });
     
     await updateTaskProgress(feature);
     
     // Trigger spec04 workflow for this task
-    await vscode.commands.executeCommand('workbench.action.chat.open', `/spec04 task ${taskIndex + 1}`);
+    await openSpecChat(`${getFeatureLayout(feature).taskPrompt} task ${taskLabel}`, feature);
     
-    outputChannel.appendLine(`Started implementation of task ${taskIndex + 1} in feature ${feature}`);
+    outputChannel.appendLine(`Started implementation of task ${taskLabel} in feature ${feature}`);
 }
 
-async function startTaskAutonomously(feature: string, taskIndex: number): Promise<void> {
-    outputChannel.appendLine(`AUTONOMOUS START TASK CALLED: task ${taskIndex + 1} in feature ${feature}`);
+async function startTaskAutonomously(featureName: string, task: number | string, source: TaskEventSource = 'agent'): Promise<void> {
+    outputChannel.appendLine(`AUTONOMOUS START TASK CALLED: task ${task} in feature ${featureName}`);
+    
+    const feature = await resolveFeatureKey(featureName);
+    const taskIndex = await resolveTaskIndex(feature, task);
+    if (taskIndex === null) {
+        outputChannel.appendLine(`ERROR: Task ${task} not found in feature ${feature}`);
+        return;
+    }
     
     // Safety check: Don't start already completed tasks
-    const tasksFile = await findSpecFiles(feature);
-    const tasksFilePath = tasksFile.find(file => file.includes('03-tasks'));
+    const tasksFilePath = await findTasksFile(feature);
+    let taskLabel = String(taskIndex + 1);
     if (tasksFilePath) {
         const tasks = await parseTasksFromFile(tasksFilePath);
         if (tasks[taskIndex] && tasks[taskIndex].completed) {
-            outputChannel.appendLine(`ERROR: Attempted to start already completed task ${taskIndex + 1}`);
+            outputChannel.appendLine(`ERROR: Attempted to start already completed task ${getTaskLabel(tasks[taskIndex])}`);
             return;
         }
+        if (tasks[taskIndex]) {
+            taskLabel = getTaskLabel(tasks[taskIndex]);
+        }
     }
     
-    currentTaskState = {
+    await setActiveTask({
         feature,
+        task: taskLabel,
         taskIndex,
-        status: 'implementing'
-    };
+        status: 'implementing',
+        startedAt: Date.now(),
+        source
+    });
+    await recordTaskEvent(feature, 'started', taskIndex, source);
+    await runHooks('task-started', { feature, taskIndex });
     
     await updateTaskProgress(feature);
     
     // Refresh CodeLens to show "Implementing..."
     taskCodeLensProvider?.refresh();
     
-    outputChannel.appendLine(`Started autonomous implementation of task ${taskIndex + 1} in feature ${feature}`);
+    outputChannel.appendLine(`Started autonomous implementation of task ${taskLabel} in feature ${feature}`);
 }
 
 async function detectAndStartTaskFromContext(chatMessage: string): Promise<void> {
     outputChannel.appendLine(`DETECTING TASK CONTEXT FROM: ${chatMessage.substring(0, 100)}...`);
     
-    // Parse various spec04 task message formats:
+    // Parse various task prompt message formats (codep.taskPrompt, /spec04 by default):
     // "/spec04 task 3"
+    // "/spec04 task 2.1"
     // "/spec04 Execute task 2 in feature-name"
     // "/spec04 implement task 1"
     // "/spec04 start task 4"
-    const spec04Match = chatMessage.match(/\/spec04\s+(?:(?:task|execute|implement|start)\s+(?:task\s+)?(\d+)|Execute\s+task\s+(\d+)\s+in\s+([\w-]+))/i);
+    const taskPrompts = new Set((vscode.workspace.workspaceFolders ?? [undefined])
+        .flatMap(folder => getWorkflowDefinitions(folder).workflows.map(workflow => workflow.taskPrompt)));
+    const promptPattern = [...taskPrompts].map(prompt => prompt.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+    const taskMatch = chatMessage.match(new RegExp(`(?:${promptPattern})\\s+(?:task|execute|implement|start)\\s+(?:task\\s+)?(\\d+(?:\\.\\d+)*)(?:\\s+in\\s+([\\w-]+))?`, 'i'));
     
-    if (spec04Match) {
-        let taskNumber: number;
-        let feature: string | null = null;
+    if (taskMatch) {
+        // Outline number as written in the tasks document, e.g. "3" or "2.1"
+        const taskNumber = taskMatch[1];
+        let feature: string | null = taskMatch[2] || null;
         
-        if (spec04Match[1]) {
-            // Format: "/spec04 task 3", "/spec04 implement task 1", etc.
-            taskNumber = parseInt(spec04Match[1]) - 1; // Convert to 0-based index
-            
+        if (!feature) {
             // Try to determine feature from current workspace context
             const activeEditor = vscode.window.activeTextEditor;
             if (activeEditor && isSpecFile(activeEditor.document.uri.fsPath)) {
@@ -257,23 +572,16 @@ async function detectAndStartTaskFromContext(chatMessage: string): Promise<void>
                 // Find the most recent incomplete feature
                 const features = await findSpecFeatures();
                 for (const f of features) {
-                    const isComplete = await isSpecComplete(f);
-                    if (!isComplete) {
+                    if (await isSpecInProgress(f)) {
                         feature = f;
                         break;
                     }
                 }
             }
-        } else if (spec04Match[2] && spec04Match[3]) {
-            // Format: "/spec04 Execute task 2 in feature-name"
-            taskNumber = parseInt(spec04Match[2]) - 1; // Convert to 0-based index
-            feature = spec04Match[3];
-        } else {
-            return;
         }
         
-        if (feature && taskNumber >= 0) {
-            outputChannel.appendLine(`DETECTED TASK CONTEXT: task ${taskNumber + 1} in feature ${feature}`);
+        if (feature) {
+            outputChannel.appendLine(`DETECTED TASK CONTEXT: task ${taskNumber} in feature ${feature}`);
             await startTaskAutonomously(feature, taskNumber);
         }
     }
@@ -286,15 +594,14 @@ async function getActiveSpecContext(): Promise<{feature: string, nextTaskIndex:
         const feature = getSpecFeature(activeEditor.document.uri.fsPath);
         if (feature) {
             // Find the first uncompleted task in this feature
-            const tasksFile = await findSpecFiles(feature);
-            const tasksFilePath = tasksFile.find(file => file.includes('03-tasks'));
+            const tasksFilePath = await findTasksFile(feature);
             if (tasksFilePath) {
                 const tasks = await parseTasksFromFile(tasksFilePath);
                 const nextTaskIndex = tasks.findIndex(task => !task.completed);
                 if (nextTaskIndex >= 0) {
                     return {
                         feature,
-                        nextTaskIndex
+                        nextTaskIndex: findStartableTaskIndex(tasks, nextTaskIndex)
                     };
                 }
             }
@@ -304,17 +611,15 @@ async function getActiveSpecContext(): Promise<{feature: string, nextTaskIndex:
     // If no active spec file, find the most recent incomplete feature
     const features = await findSpecFeatures();
     for (const feature of features) {
-        const isComplete = await isSpecComplete(feature);
-        if (!isComplete) {
-            const tasksFile = await findSpecFiles(feature);
-            const tasksFilePath = tasksFile.find(file => file.includes('03-tasks'));
+        if (await isSpecInProgress(feature)) {
+            const tasksFilePath = await findTasksFile(feature);
             if (tasksFilePath) {
                 const tasks = await parseTasksFromFile(tasksFilePath);
                 const nextTaskIndex = tasks.findIndex(task => !task.completed);
                 if (nextTaskIndex >= 0) {
                     return {
                         feature,
-                        nextTaskIndex
+                        nextTaskIndex: findStartableTaskIndex(tasks, nextTaskIndex)
                     };
                 }
             }
@@ -324,420 +629,3409 @@ async function getActiveSpecContext(): Promise<{feature: string, nextTaskIndex:
     return null;
 }
 
-async function completeTaskImplementation(): Promise<void> {
-    if (!currentTaskState) return;
+/**
+ * Complete the active task once its verification command passes. Returns the verification result,
+ * or null when the task has no verification command; a failed verification leaves the task implementing
+ */
+async function completeTaskImplementation(feature?: string, source: TaskEventSource = 'command'): Promise<TaskVerification | null> {
+    const resolved = resolveActiveTask(feature ? await resolveFeatureKey(feature) : undefined);
+    // The plan may have changed since the task started: complete the task with its outline number
+    const activeTask = resolved ? await syncActiveTask(resolved.feature) : null;
+    if (!activeTask) return null;
     
-    const { feature, taskIndex } = currentTaskState;
-    outputChannel.appendLine(`BEFORE COMPLETION: currentTaskState=${currentTaskState ? 'SET' : 'NULL'} (task ${taskIndex + 1})`);
+    const { taskIndex } = activeTask;
+    outputChannel.appendLine(`BEFORE COMPLETION: active task ${activeTask.task} in feature ${activeTask.feature}`);
     
-    await markTaskCompleted(feature, taskIndex);
+    const verification = await verifyTask(activeTask.feature, taskIndex);
+    if (verification && !verification.passed) {
+        // The agent gets the failure in the tool result; people get a notification
+        if (source !== 'agent') {
+            reportVerificationFailure(activeTask.feature, verification);
+        }
+        return verification;
+    }
+    
+    if (!await markTaskCompleted(activeTask.feature, taskIndex)) {
+        // The tasks document was not updated, so the task stays implementing
+        return null;
+    }
+    await recordTaskEvent(activeTask.feature, 'completed', taskIndex, source, Date.now() - activeTask.startedAt);
     
-    // Clear the current task state first
-    currentTaskState = null;
-    outputChannel.appendLine(`AFTER CLEARING: currentTaskState=${currentTaskState ? 'SET' : 'NULL'}`);
+    if (isTaskCommitEnabled(activeTask.feature)) {
+        await commitCompletedTask(activeTask.feature, taskIndex);
+    }
+    await runHooks('task-completed', { feature: activeTask.feature, taskIndex });
+    
+    // Clear the feature's active task first
+    await clearActiveTask(activeTask.feature);
     
     // Update progress (this will call updateStatusBar internally)
-    await updateTaskProgress(feature);
+    await updateTaskProgress(activeTask.feature);
     
     // Refresh CodeLens to show "Task Complete"
     taskCodeLensProvider?.refresh();
     
-    outputChannel.appendLine(`Completed task ${taskIndex + 1} in feature ${feature}`);
-    outputChannel.appendLine(`FINAL STATE: currentTaskState=${currentTaskState ? 'SET' : 'NULL'}`);
+    outputChannel.appendLine(`Completed task ${activeTask.task} in feature ${activeTask.feature}`);
+    return verification;
 }
 
-async function markTaskCompleted(feature: string, taskIndex: number): Promise<void> {
-    const tasksFile = await findSpecFiles(feature);
-    const tasksFilePath = tasksFile.find(file => file.includes('03-tasks'));
-    
-    if (!tasksFilePath) return;
+async function stopTaskImplementation(feature?: string, source: TaskEventSource = 'command'): Promise<void> {
+    let activeTask = feature ? getActiveTask(feature) : null;
     
-    try {
-        const uri = vscode.Uri.file(tasksFilePath);
-        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === tasksFilePath);
-        
-        if (document) {
-            // If document is open, use WorkspaceEdit for live updates
-            const edit = new vscode.WorkspaceEdit();
-            const lines = document.getText().split('\n');
-            
-            let taskCount = 0;
-            for (let i = 0; i < lines.length; i++) {
-                const taskMatch = lines[i].match(/^\s*-\s*\[([x ])\]/);
-                if (taskMatch && taskCount === taskIndex) {
-                    const range = new vscode.Range(i, 0, i, lines[i].length);
-                    const newText = lines[i].replace(/^\s*-\s*\[\s\]/, '- [x]');
-                    edit.replace(uri, range, newText);
-                    break;
-                } else if (taskMatch) {
-                    taskCount++;
-                }
-            }
-            
-            await vscode.workspace.applyEdit(edit);
+    if (!feature) {
+        const tasks = [...activeTasks.values()];
+        if (tasks.length === 1) {
+            activeTask = tasks[0];
+        } else if (tasks.length > 1) {
+            const selected = await vscode.window.showQuickPick(Promise.all(tasks.map(async task => ({
+                label: task.feature,
+                description: `Task ${task.task}`,
+                detail: `Started ${new Date(task.startedAt).toLocaleString()}`,
+                task
+            }))), {
+                placeHolder: 'Select the task to stop'
+            });
+            activeTask = selected?.task ?? null;
+            if (!selected) return;
         }
-        
-        outputChannel.appendLine(`Marked task ${taskIndex + 1} as completed`);
-        
-    } catch (error) {
-        outputChannel.appendLine(`Error marking task as completed: ${error}`);
     }
+    
+    // The journal records the task the outline number now points to
+    activeTask = activeTask ? await syncActiveTask(activeTask.feature) : null;
+    if (!activeTask) {
+        vscode.window.showInformationMessage('No task is currently being implemented.');
+        return;
+    }
+    
+    await recordTaskEvent(activeTask.feature, 'stopped', activeTask.taskIndex, source, Date.now() - activeTask.startedAt);
+    await clearActiveTask(activeTask.feature);
+    await updateTaskProgress(activeTask.feature);
+    taskCodeLensProvider?.refresh();
+    
+    outputChannel.appendLine(`Stopped task ${activeTask.task} in feature ${activeTask.feature}`);
 }
 
-// ===== CODELENS PROVIDER FOR TASK INTERACTION =====
+/**
+ * The task, its open sub-tasks, and every ancestor whose sub-tasks all end up checked
+ */
+function getTasksToComplete(tasks: TaskItem[], taskIndex: number): number[] {
+    if (!tasks[taskIndex]) {
+        return [];
+    }
 
-class TaskCodeLensProvider implements vscode.CodeLensProvider {
-    private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
-    public readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+    const completing = [taskIndex];
+    const descendants = [...tasks[taskIndex].children];
+    while (descendants.length > 0) {
+        const child = descendants.pop()!;
+        completing.push(child);
+        descendants.push(...tasks[child].children);
+    }
 
-    public async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
-        const codeLenses: vscode.CodeLens[] = [];
-        
-        // Only provide CodeLenses for task files (03-tasks.md)
-        if (!document.fileName.includes('03-tasks.md') || !isSpecFile(document.fileName)) {
-            return codeLenses;
-        }
-        
-        const feature = getSpecFeature(document.fileName);
-        if (!feature) return codeLenses;
-        
-        const text = document.getText();
-        const lines = text.split('\n');
-        
-        let taskIndex = 0;
-        for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-            const line = lines[lineIndex];
-            const taskMatch = line.match(/^\s*-\s*\[(\s|x)\]\s*(.+)$/);
-            
-            if (taskMatch) {
-                const isCompleted = taskMatch[1] === 'x';
-                const isCurrentTask = currentTaskState?.taskIndex === taskIndex;
-                
-                const range = new vscode.Range(lineIndex, 0, lineIndex, 0);
-                let title: string;
-                let command: vscode.Command | undefined;
-                
-                if (isCompleted) {
-                    title = '$(check) Task Complete';
-                    command = undefined; // No click action for completed tasks
-                } else if (isCurrentTask) {
-                    title = '$(sync~spin) Implementing...';
-                    command = undefined; // No click action while implementing
-                } else {
-                    title = '$(play) Start Task';
-                    command = {
-                        title: 'Start Task Implementation',
-                        command: 'codep.startTask',
-                        arguments: [feature, taskIndex]
-                    };
-                }
-                
-                codeLenses.push(new vscode.CodeLens(range, command ? {
-                    title,
-                    command: command.command,
-                    arguments: command.arguments
-                } : {
-                    title,
-                    command: ''
-                }));
-                
-                taskIndex++;
-            }
+    let parent = tasks[taskIndex].parent;
+    while (parent !== null) {
+        const parentTask = tasks[parent];
+        const allChildrenDone = parentTask.children.every(child => tasks[child].completed || completing.includes(child));
+        if (parentTask.completed || !allChildrenDone) {
+            break;
         }
-        
-        return codeLenses;
+        completing.push(parent);
+        parent = parentTask.parent;
     }
+    return completing;
+}
 
-    public refresh(): void {
-        this._onDidChangeCodeLenses.fire();
+/**
+ * The task itself plus every checked ancestor, which no longer has all its sub-tasks done
+ */
+function getTasksToReopen(tasks: TaskItem[], taskIndex: number): number[] {
+    if (!tasks[taskIndex]) {
+        return [];
+    }
+
+    const reopening = [taskIndex];
+    for (let parent = tasks[taskIndex].parent; parent !== null && tasks[parent].completed; parent = tasks[parent].parent) {
+        reopening.push(parent);
     }
+    return reopening;
 }
 
-// ===== FILE UTILITIES =====
+/**
+ * Check or uncheck the selected tasks in a single undoable workspace edit. Only the box character
+ * changes, so indentation and list markers stay as written, and closed documents are edited and
+ * saved too. Returns the tasks that changed, or null when the edit failed
+ */
+async function setTaskCheckboxes(feature: string, select: (tasks: TaskItem[]) => number[], completed: boolean): Promise<TaskItem[] | null> {
+    const tasksFilePath = await findTasksFile(feature);
+    if (!tasksFilePath) {
+        return null;
+    }
 
-async function fileExists(uri: vscode.Uri): Promise<boolean> {
     try {
-        await vscode.workspace.fs.stat(uri);
-        return true;
-    } catch {
-        return false;
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(tasksFilePath));
+        const tasks = parseTasksFromContent(document.getText());
+        const changed = select(tasks).filter(index => tasks[index] && tasks[index].completed !== completed).map(index => tasks[index]);
+        if (changed.length === 0) {
+            return [];
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const task of changed) {
+            const box = document.lineAt(task.line).text.match(/^(\s*-\s*\[)[xX ]\]/);
+            if (box) {
+                const column = box[1].length;
+                edit.replace(document.uri, new vscode.Range(task.line, column, task.line, column + 1), completed ? 'x' : ' ');
+            }
+        }
+
+        // Unsaved changes someone is making in the document stay theirs to save
+        const wasDirty = document.isDirty;
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error(`the edit of ${tasksFilePath} was rejected`);
+        }
+        if (!wasDirty) {
+            await document.save();
+        }
+        specModel.invalidate(feature);
+        return changed;
+    } catch (error) {
+        const errorMessage = `Error updating tasks of ${feature}: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
+        return null;
     }
 }
 
-async function directoryExists(uri: vscode.Uri): Promise<boolean> {
-    try {
-        const stat = await vscode.workspace.fs.stat(uri);
-        return (stat.type & vscode.FileType.Directory) !== 0;
-    } catch {
-        return false;
+async function markTaskCompleted(feature: string, taskIndex: number): Promise<boolean> {
+    const changed = await setTaskCheckboxes(feature, tasks => getTasksToComplete(tasks, taskIndex), true);
+    if (changed) {
+        outputChannel.appendLine(`Marked ${changed.map(task => `task ${getTaskLabel(task)}`).join(', ')} as completed`);
     }
+    return changed !== null;
 }
 
-async function ensureDirectory(fileUri: vscode.Uri): Promise<void> {
-    const parentUri = vscode.Uri.joinPath(fileUri, '..');
-    if (!(await directoryExists(parentUri))) {
-        await vscode.workspace.fs.createDirectory(parentUri);
+// ===== TASK CHECKBOX COMMANDS =====
+
+/**
+ * The task a checkbox command applies to: (feature, task) from CodeLens, the task node from the
+ * spec explorer, or a pick among the feature's matching tasks from the command palette
+ */
+async function resolveTaskTarget(featureOrNode: string | SpecTreeNode | undefined, task: number | string | undefined, placeHolder: string, matches: (task: TaskItem) => boolean): Promise<{ feature: string; taskIndex: number } | null> {
+    if (typeof featureOrNode === 'object') {
+        return featureOrNode.kind === 'task' ? { feature: featureOrNode.feature, taskIndex: featureOrNode.task.index } : null;
+    }
+
+    const feature = featureOrNode ?? await pickSpecFeature('Select a specification feature');
+    const tasksFilePath = feature ? await findTasksFile(feature) : null;
+    if (!feature || !tasksFilePath) {
+        return null;
+    }
+
+    const tasks = await parseTasksFromFile(tasksFilePath);
+    if (task !== undefined) {
+        const taskIndex = findTaskIndex(tasks, task);
+        return taskIndex === null ? null : { feature, taskIndex };
+    }
+
+    const candidates = tasks.filter(matches);
+    if (candidates.length === 0) {
+        vscode.window.showInformationMessage(`No matching tasks in ${feature}.`);
+        return null;
     }
+    const selected = await vscode.window.showQuickPick(candidates.map(item => ({
+        label: getTaskLabel(item),
+        description: item.text,
+        taskIndex: item.index
+    })), { placeHolder });
+    return selected ? { feature, taskIndex: selected.taskIndex } : null;
 }
 
-async function getWorkspaceRoot(): Promise<vscode.Uri> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-        throw new Error('No workspace folder found');
+/**
+ * Record a checkbox change in the journal. The burndown counts leaf tasks, so a change made on a
+ * parent is recorded for each leaf it checked or unchecked
+ */
+async function recordCheckboxChanges(feature: string, type: 'completed' | 'reopened', changed: TaskItem[], source: TaskEventSource): Promise<void> {
+    for (const task of changed.filter(task => task.children.length === 0)) {
+        await recordTaskEvent(feature, type, task.index, source);
     }
-    return workspaceFolder.uri;
 }
 
-// ===== BUNDLED FILES MANAGEMENT =====
+async function refreshTaskViews(feature: string): Promise<void> {
+    await updateTaskProgress(feature);
+    taskCodeLensProvider?.refresh();
+}
 
-async function getBundledFiles(context: vscode.ExtensionContext): Promise<BundledFile[]> {
-    const bundledFiles: BundledFile[] = [];
-    const githubUri = vscode.Uri.joinPath(context.extensionUri, '.github');
+/**
+ * Check a task and its sub-tasks without going through implementation, e.g. for work done by hand
+ */
+async function markTaskComplete(featureOrNode?: string | SpecTreeNode, task?: number | string): Promise<void> {
+    const target = await resolveTaskTarget(featureOrNode, task, 'Select the task to mark complete', item => !item.completed);
+    if (!target) {
+        return;
+    }
 
-    try {
-        // Get copilot-instructions.md
-        const copilotInstructionsUri = vscode.Uri.joinPath(githubUri, 'copilot-instructions.md');
-        if (await fileExists(copilotInstructionsUri)) {
-            const content = await vscode.workspace.fs.readFile(copilotInstructionsUri);
-            bundledFiles.push({
-                absolutePath: copilotInstructionsUri.fsPath,
-                relativePath: '.github/copilot-instructions.md',
-                content: Buffer.from(content).toString('utf8')
-            });
-        }
+    const { feature, taskIndex } = target;
+    const source: TaskEventSource = typeof featureOrNode === 'object' ? 'explorer' : featureOrNode ? 'codelens' : 'command';
+    const activeTask = await syncActiveTask(feature);
+    const changed = await setTaskCheckboxes(feature, tasks => getTasksToComplete(tasks, taskIndex), true);
+    if (!changed) {
+        return;
+    }
+
+    if (activeTask && changed.some(item => item.index === activeTask.taskIndex)) {
+        // The implementation in progress is done as far as the tasks document goes
+        await recordTaskEvent(feature, 'completed', activeTask.taskIndex, source, Date.now() - activeTask.startedAt);
+        await recordCheckboxChanges(feature, 'completed', changed.filter(item => item.index !== activeTask.taskIndex), source);
+        await clearActiveTask(feature);
+    } else {
+        await recordCheckboxChanges(feature, 'completed', changed, source);
+    }
+
+    await refreshTaskViews(feature);
+    outputChannel.appendLine(`Marked ${changed.map(item => `task ${getTaskLabel(item)}`).join(', ')} in feature ${feature} as completed`);
+}
+
+/**
+ * Uncheck a completed task, and the parents that were checked because of it
+ */
+async function reopenTask(featureOrNode?: string | SpecTreeNode, task?: number | string): Promise<void> {
+    const target = await resolveTaskTarget(featureOrNode, task, 'Select the task to reopen', item => item.completed);
+    if (!target) {
+        return;
+    }
+
+    const { feature, taskIndex } = target;
+    const source: TaskEventSource = typeof featureOrNode === 'object' ? 'explorer' : featureOrNode ? 'codelens' : 'command';
+    const changed = await setTaskCheckboxes(feature, tasks => getTasksToReopen(tasks, taskIndex), false);
+    if (!changed) {
+        return;
+    }
+
+    await recordCheckboxChanges(feature, 'reopened', changed, source);
+    await refreshTaskViews(feature);
+    outputChannel.appendLine(`Reopened ${changed.map(item => `task ${getTaskLabel(item)}`).join(', ')} in feature ${feature}`);
+}
+
+/**
+ * Uncheck every task of a feature after confirmation; the change is a single edit that Undo reverts
+ */
+async function resetTasks(featureOrNode?: string | SpecTreeNode): Promise<void> {
+    const feature = await resolveFeatureArgument(featureOrNode, 'Select the specification feature whose tasks to reset');
+    if (!feature) {
+        return;
+    }
+
+    const confirmation = await vscode.window.showWarningMessage(
+        `Uncheck all tasks of ${feature}?`,
+        { modal: true, detail: 'Every completed task is reopened. Use Undo in the tasks document to revert.' },
+        'Reset Tasks'
+    );
+    if (confirmation !== 'Reset Tasks') {
+        return;
+    }
+
+    const changed = await setTaskCheckboxes(feature, tasks => tasks.map(item => item.index), false);
+    if (!changed) {
+        return;
+    }
+
+    const source: TaskEventSource = typeof featureOrNode === 'object' ? 'explorer' : featureOrNode ? 'codelens' : 'command';
+    await recordCheckboxChanges(feature, 'reopened', changed, source);
+    await refreshTaskViews(feature);
+    outputChannel.appendLine(`Reset ${changed.length} task(s) in feature ${feature}`);
+}
+
+// ===== TASK JOURNAL =====
+
+const TASK_JOURNAL_FILE = 'journal.jsonl';
+
+async function getTaskJournalUri(feature: string): Promise<vscode.Uri | null> {
+    const featureUri = await resolveFeatureUri(feature);
+    return featureUri ? vscode.Uri.joinPath(featureUri, TASK_JOURNAL_FILE) : null;
+}
+
+/**
+ * Append a task event to the feature's journal.jsonl. Failures are only logged so that
+ * journaling never blocks starting or completing a task
+ */
+async function recordTaskEvent(feature: string, type: TaskJournalEvent['type'], taskIndex: number, source: TaskEventSource, durationMs?: number): Promise<void> {
+    try {
+        const journalUri = await getTaskJournalUri(feature);
+        if (!journalUri) {
+            return;
+        }
+
+        const tasksFilePath = await findTasksFile(feature);
+        const task = tasksFilePath ? (await parseTasksFromFile(tasksFilePath))[taskIndex] : undefined;
+
+        const event: TaskJournalEvent = {
+            type,
+            timestamp: new Date().toISOString(),
+            taskIndex,
+            task: task ? getTaskLabel(task) : String(taskIndex + 1),
+            text: task?.text ?? '',
+            source
+        };
+        if (durationMs !== undefined) {
+            event.durationMs = durationMs;
+        }
+
+        const existing = await readTextFile(journalUri) ?? '';
+        const separator = existing && !existing.endsWith('\n') ? '\n' : '';
+        await vscode.workspace.fs.writeFile(journalUri, Buffer.from(`${existing}${separator}${JSON.stringify(event)}\n`, 'utf8'));
+    } catch (error) {
+        outputChannel.appendLine(`Error writing task journal for ${feature}: ${error}`);
+    }
+}
+
+async function readTaskJournal(feature: string): Promise<TaskJournalEvent[]> {
+    const journalUri = await getTaskJournalUri(feature);
+    const content = journalUri ? await readTextFile(journalUri) : null;
+    if (!content) {
+        return [];
+    }
+
+    const events: TaskJournalEvent[] = [];
+    for (const line of content.split('\n')) {
+        if (!line.trim()) {
+            continue;
+        }
+        try {
+            events.push(JSON.parse(line));
+        } catch {
+            outputChannel.appendLine(`Skipping malformed journal entry in ${feature}: ${line}`);
+        }
+    }
+    return events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+function formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 1) {
+        return '< 1m';
+    }
+    const hours = Math.floor(minutes / 60);
+    if (hours === 0) {
+        return `${minutes}m`;
+    }
+    const days = Math.floor(hours / 24);
+    if (days === 0) {
+        return `${hours}h ${minutes % 60}m`;
+    }
+    return `${days}d ${hours % 24}h`;
+}
+
+function formatDay(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Markdown report of the journal: time spent per task, average cycle time (first start to
+ * completion) and a daily burndown of the remaining leaf tasks
+ */
+function formatTaskReport(feature: string, tasks: TaskItem[], events: TaskJournalEvent[]): string {
+    const lines: string[] = [`# Task Report: ${feature}`, ''];
+
+    const byTask = new Map<string, { text: string; sessions: number; timeMs: number; firstStart: number | null; completedAt: number | null }>();
+    for (const event of events) {
+        const entry = byTask.get(event.task) ?? { text: event.text, sessions: 0, timeMs: 0, firstStart: null, completedAt: null };
+        const at = Date.parse(event.timestamp);
+        if (event.type === 'started') {
+            entry.sessions++;
+            entry.firstStart = entry.firstStart ?? at;
+        } else if (event.type === 'reopened') {
+            entry.completedAt = null;
+        } else {
+            entry.timeMs += event.durationMs ?? 0;
+            if (event.type === 'completed') {
+                entry.completedAt = at;
+            }
+        }
+        byTask.set(event.task, entry);
+    }
+
+    lines.push('## Time per Task', '');
+    if (byTask.size === 0) {
+        lines.push('No task activity has been recorded yet.', '');
+    } else {
+        lines.push('| Task | Description | Sessions | Time | Status |', '| --- | --- | --- | --- | --- |');
+        for (const [label, entry] of byTask) {
+            const status = entry.completedAt !== null ? 'Completed' : 'Open';
+            lines.push(`| ${label} | ${entry.text.replace(/\|/g, '\\|')} | ${entry.sessions} | ${formatDuration(entry.timeMs)} | ${status} |`);
+        }
+        lines.push('');
+    }
+
+    const cycleTimes = [...byTask.values()]
+        .filter(entry => entry.firstStart !== null && entry.completedAt !== null)
+        .map(entry => entry.completedAt! - entry.firstStart!);
+    lines.push('## Cycle Time', '');
+    if (cycleTimes.length === 0) {
+        lines.push('No task has been started and completed through Code:P yet.', '');
+    } else {
+        const average = cycleTimes.reduce((sum, value) => sum + value, 0) / cycleTimes.length;
+        const activeTimes = [...byTask.values()].filter(entry => entry.completedAt !== null).map(entry => entry.timeMs);
+        const averageActive = activeTimes.reduce((sum, value) => sum + value, 0) / activeTimes.length;
+        lines.push(`- Completed tasks: ${cycleTimes.length}`);
+        lines.push(`- Average cycle time: ${formatDuration(average)}`);
+        lines.push(`- Average implementation time: ${formatDuration(averageActive)}`, '');
+    }
+
+    // Parents are checked by roll-up, so the burndown counts leaf tasks only
+    const leafTasks = tasks.filter(task => task.children.length === 0);
+    const leafLabels = new Set(leafTasks.map(getTaskLabel));
+    const journaled = new Set(events.filter(event => event.type === 'completed').map(event => event.task));
+    const completedBeforeJournal = leafTasks.filter(task => task.completed && !journaled.has(getTaskLabel(task))).length;
+
+    lines.push('## Burndown', '');
+    if (events.length === 0 || leafTasks.length === 0) {
+        lines.push('Not enough activity for a burndown yet.');
+        return lines.join('\n') + '\n';
+    }
+
+    const checkboxEvents = new Map<string, TaskJournalEvent[]>();
+    for (const event of events.filter(event => event.type === 'completed' || event.type === 'reopened')) {
+        const day = formatDay(new Date(event.timestamp));
+        checkboxEvents.set(day, [...checkboxEvents.get(day) ?? [], event]);
+    }
+
+    lines.push('| Day | Remaining | Chart |', '| --- | --- | --- |');
+    const done = new Set<string>();
+    const day = new Date(events[0].timestamp);
+    const today = formatDay(new Date());
+    for (let key = formatDay(day); key <= today; day.setDate(day.getDate() + 1), key = formatDay(day)) {
+        for (const event of checkboxEvents.get(key) ?? []) {
+            if (!leafLabels.has(event.task)) {
+                continue;
+            }
+            if (event.type === 'completed') {
+                done.add(event.task);
+            } else {
+                done.delete(event.task);
+            }
+        }
+        const remaining = Math.max(leafTasks.length - completedBeforeJournal - done.size, 0);
+        lines.push(`| ${key} | ${remaining} | ${'█'.repeat(remaining)} |`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+async function showTaskReport(): Promise<void> {
+    try {
+        const feature = await pickSpecFeature('Select a specification feature to report on');
+        if (!feature) {
+            return;
+        }
+
+        const tasksFilePath = await findTasksFile(feature);
+        const tasks = tasksFilePath ? await parseTasksFromFile(tasksFilePath) : [];
+        const events = await readTaskJournal(feature);
+
+        const document = await vscode.workspace.openTextDocument({
+            content: formatTaskReport(feature, tasks, events),
+            language: 'markdown'
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+    } catch (error) {
+        const errorMessage = `Error showing task report: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
+    }
+}
+
+// ===== GIT INTEGRATION =====
+
+function isTaskCommitEnabled(feature: string): boolean {
+    const { folder } = splitFeatureKey(feature);
+    return vscode.workspace.getConfiguration('codep', folder?.uri).get<boolean>('git.commitOnTaskComplete', false);
+}
+
+/**
+ * The built-in Git extension API, or null when Git is disabled or unavailable (e.g. on the web)
+ */
+async function getGitApi(): Promise<GitAPI | null> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+        return null;
+    }
+    const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+    return gitExtension.enabled ? gitExtension.getAPI(1) : null;
+}
+
+/**
+ * Commit message derived from the task: its text as subject, then the feature and requirement references
+ */
+function buildTaskCommitMessage(feature: string, task: TaskItem): string {
+    const description = task.text
+        .replace(/^\d+(?:\.\d+)*\.?\s+/, '')
+        .replace(/\s*_?Requirements?\s*:.*$/i, '')
+        .trim();
+    const subject = description.length > 72 ? `${description.slice(0, 69)}...` : description;
+
+    const body = [`Completes task ${getTaskLabel(task)} of the ${splitFeatureKey(feature).name} specification.`];
+    if (task.requirements.length > 0) {
+        body.push('', `Requirements: ${[...new Set(task.requirements)].join(', ')}`);
+    }
+    return `${subject}\n\n${body.join('\n')}`;
+}
+
+/**
+ * Stage the working changes and commit them with a message proposed from the task, so each
+ * completed task maps to one commit. The plan is not touched afterwards: the commit is found
+ * again from its message (see getTaskCommits)
+ */
+async function commitCompletedTask(feature: string, taskIndex: number): Promise<void> {
+    try {
+        const tasksFilePath = await findTasksFile(feature);
+        if (!tasksFilePath) {
+            return;
+        }
+        const tasksUri = vscode.Uri.file(tasksFilePath);
+
+        const git = await getGitApi();
+        const repository = git?.getRepository(tasksUri);
+        if (!repository) {
+            vscode.window.showWarningMessage('Task commits are enabled but no Git repository was found for this specification.');
+            return;
+        }
+
+        // Include the checked task in the commit
+        await vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === tasksFilePath)?.save();
+
+        const task = (await parseTasksFromFile(tasksFilePath))[taskIndex];
+        if (!task) {
+            return;
+        }
+
+        const changes = [...repository.state.workingTreeChanges, ...(repository.state.untrackedChanges ?? [])];
+        if (changes.length === 0 && repository.state.indexChanges.length === 0) {
+            vscode.window.showInformationMessage(`No changes to commit for task ${getTaskLabel(task)}.`);
+            return;
+        }
+
+        // The proposed subject can be edited; the body keeps the feature and requirement references
+        const [proposedSubject, ...body] = buildTaskCommitMessage(feature, task).split('\n');
+        const subject = await vscode.window.showInputBox({
+            title: `Commit task ${getTaskLabel(task)}`,
+            prompt: 'Commit message for the changes made by this task. Press Escape to skip the commit.',
+            value: proposedSubject,
+            ignoreFocusOut: true
+        });
+        if (!subject) {
+            outputChannel.appendLine(`Skipped commit for task ${getTaskLabel(task)} in feature ${feature}`);
+            return;
+        }
+
+        if (changes.length > 0) {
+            await repository.add(changes.map(change => change.uri.fsPath));
+        }
+        await repository.commit([subject, ...body].join('\n'));
+
+        const sha = repository.state.HEAD?.commit?.slice(0, 7);
+        if (sha) {
+            outputChannel.appendLine(`Committed task ${getTaskLabel(task)} in feature ${feature} as ${sha}`);
+        }
+        taskCodeLensProvider?.refresh();
+    } catch (error) {
+        const errorMessage = `Error committing task: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
+    }
+}
+
+// Task commits by tasks document, read again when HEAD moves
+const taskCommitCache = new Map<string, { head: string | undefined; commits: Map<string, string> }>();
+
+/**
+ * Short SHAs of the task commits of a tasks document by task label, taken from the "Completes task"
+ * line buildTaskCommitMessage writes. Each task commit checks its box, so it touched the document
+ */
+async function getTaskCommits(tasksUri: vscode.Uri, feature: string): Promise<Map<string, string>> {
+    const repository = (await getGitApi())?.getRepository(tasksUri);
+    if (!repository) {
+        return new Map();
+    }
+
+    const head = repository.state.HEAD?.commit;
+    const cached = taskCommitCache.get(tasksUri.fsPath);
+    if (cached && cached.head === head) {
+        return cached.commits;
+    }
+
+    const commits = new Map<string, string>();
+    const name = splitFeatureKey(feature).name;
+    for (const commit of await repository.log({ path: tasksUri.fsPath, maxEntries: 500 })) {
+        const match = commit.message.match(/^Completes task (\S+) of the (.+) specification\.$/m);
+        // The log lists the newest commit first, which wins for a task committed more than once
+        if (match && match[2] === name && !commits.has(match[1])) {
+            commits.set(match[1], commit.hash.slice(0, 7));
+        }
+    }
+    taskCommitCache.set(tasksUri.fsPath, { head, commits });
+    return commits;
+}
+
+/**
+ * Open the changes of a task's commit in the multi-file diff editor
+ */
+async function showTaskCommit(tasksUri: vscode.Uri, sha: string): Promise<void> {
+    try {
+        const git = await getGitApi();
+        const repository = git?.getRepository(tasksUri);
+        if (!git || !repository) {
+            vscode.window.showWarningMessage('No Git repository was found for this specification.');
+            return;
+        }
+
+        const commit = await repository.getCommit(sha);
+        const subject = commit.message.split('\n')[0];
+        const parent = commit.parents[0];
+        if (!parent) {
+            vscode.window.showInformationMessage(`${sha}: ${subject}`);
+            return;
+        }
+
+        const changes = await repository.diffBetween(parent, commit.hash);
+        const resources = changes.map(change => [
+            change.uri,
+            git.toGitUri(change.originalUri, parent),
+            git.toGitUri(change.uri, commit.hash)
+        ]);
+        await vscode.commands.executeCommand('vscode.changes', `${sha} ${subject}`, resources);
+    } catch (error) {
+        const errorMessage = `Error showing task commit: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
+    }
+}
+
+// ===== TASK VERIFICATION =====
+
+const VERIFY_TASK_TYPE = 'codep-verify';
+const VERIFY_OUTPUT_LIMIT = 8000;
+
+/**
+ * The task's own "verify:" command, else the folder's codep.verify.defaultCommand
+ */
+function getVerificationCommand(feature: string, task: TaskItem): string | null {
+    const { folder } = splitFeatureKey(feature);
+    const defaultCommand = vscode.workspace.getConfiguration('codep', folder?.uri).get<string>('verify.defaultCommand', '').trim();
+    return task.verify ?? (defaultCommand || null);
+}
+
+/**
+ * Run a task's verification command through the Tasks API, streaming its output to a task terminal
+ * and capturing it for the report
+ */
+async function verifyTask(feature: string, taskIndex: number): Promise<TaskVerification | null> {
+    const tasksFilePath = await findTasksFile(feature);
+    const task = tasksFilePath ? (await parseTasksFromFile(tasksFilePath))[taskIndex] : undefined;
+    const command = task ? getVerificationCommand(feature, task) : null;
+    if (!task || !command) {
+        return null;
+    }
+
+    const folder = splitFeatureKey(feature).folder ?? (tasksFilePath ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(tasksFilePath)) : undefined);
+    const label = getTaskLabel(task);
+    if (!folder || typeof childProcess.spawn !== 'function') {
+        return { task: label, command, exitCode: 1, passed: false, output: 'Verification commands need a workspace folder on a machine with a shell.' };
+    }
+    if (!vscode.workspace.isTrusted) {
+        return { task: label, command, exitCode: 1, passed: false, output: 'Verification commands only run in trusted workspaces.' };
+    }
+
+    outputChannel.appendLine(`Verifying task ${label} in feature ${feature}: ${command}`);
+
+    return new Promise<TaskVerification>((resolve, reject) => {
+        const execution = new vscode.CustomExecution(async () => {
+            const writeEmitter = new vscode.EventEmitter<string>();
+            const closeEmitter = new vscode.EventEmitter<number>();
+            let child: childProcess.ChildProcess | undefined;
+            let output = '';
+            let finished = false;
+
+            const write = (text: string) => writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+            const finish = (exitCode: number) => {
+                if (finished) {
+                    return;
+                }
+                finished = true;
+                write(`\n${exitCode === 0 ? 'Verification passed' : `Verification failed with exit code ${exitCode}`}\n`);
+                closeEmitter.fire(exitCode);
+                resolve({ task: label, command, exitCode, passed: exitCode === 0, output: output.slice(-VERIFY_OUTPUT_LIMIT) });
+            };
+
+            return {
+                onDidWrite: writeEmitter.event,
+                onDidClose: closeEmitter.event,
+                open: () => {
+                    write(`> ${command}\n\n`);
+                    child = childProcess.spawn(command, {
+                        cwd: folder.uri.fsPath,
+                        shell: true,
+                        env: { ...process.env, CODEP_FEATURE: splitFeatureKey(feature).name, CODEP_TASK: label }
+                    });
+                    const append = (data: Buffer) => {
+                        const text = data.toString();
+                        // Only the end of the output is reported
+                        output = (output + text).slice(-VERIFY_OUTPUT_LIMIT * 2);
+                        write(text);
+                    };
+                    child.stdout?.on('data', append);
+                    child.stderr?.on('data', append);
+                    child.on('error', error => {
+                        output += `${error.message}\n`;
+                        finish(127);
+                    });
+                    child.on('close', code => finish(code ?? 1));
+                },
+                close: () => {
+                    child?.kill();
+                    finish(130);
+                }
+            };
+        });
+
+        const verificationTask = new vscode.Task({ type: VERIFY_TASK_TYPE, feature, task: label }, folder, `Verify task ${label}`, 'codep', execution);
+        verificationTask.presentationOptions = { reveal: vscode.TaskRevealKind.Always, panel: vscode.TaskPanelKind.Dedicated, clear: true };
+        vscode.tasks.executeTask(verificationTask).then(undefined, reject);
+    });
+}
+
+/**
+ * Tell the user the task stays in progress, with the failing output one click away from the chat
+ */
+function reportVerificationFailure(feature: string, verification: TaskVerification): void {
+    outputChannel.appendLine(`Verification of task ${verification.task} in feature ${feature} failed with exit code ${verification.exitCode}`);
+    vscode.window.showErrorMessage(
+        `Task ${verification.task} of ${feature} is still implementing: \`${verification.command}\` failed with exit code ${verification.exitCode}.`,
+        'Send to Chat'
+    ).then(async selection => {
+        if (selection === 'Send to Chat') {
+            const output = verification.output.trim().split('\n').slice(-40).join('\n');
+            await openSpecChat(
+                `${getFeatureLayout(feature).taskPrompt} Fix task ${verification.task} in ${splitFeatureKey(feature).name}: ` +
+                `its verification \`${verification.command}\` failed with exit code ${verification.exitCode}:\n\`\`\`\n${output}\n\`\`\``,
+                feature
+            );
+        }
+    });
+}
+
+// ===== HOOKS =====
+
+const HOOKS_DIRECTORY = '.github/hooks';
+const HOOK_TASK_TYPE = 'codep-hook';
+const HOOK_TRIGGERS: HookTrigger[] = ['task-started', 'task-completed', 'phase-saved', 'file-saved'];
+
+function toStringList(value: unknown): string[] {
+    return (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]).map(String);
+}
+
+/**
+ * Hooks of a workspace folder, one per .yml file in .github/hooks. Invalid files are reported in
+ * the hook output and skipped
+ */
+async function loadHooks(folder: vscode.WorkspaceFolder): Promise<HookDefinition[]> {
+    const hooksUri = vscode.Uri.joinPath(folder.uri, ...HOOKS_DIRECTORY.split('/'));
+    if (!(await directoryExists(hooksUri))) {
+        return [];
+    }
+
+    const hooks: HookDefinition[] = [];
+    for (const [fileName, type] of await vscode.workspace.fs.readDirectory(hooksUri)) {
+        if (type !== vscode.FileType.File || !/\.ya?ml$/.test(fileName)) {
+            continue;
+        }
+        const uri = vscode.Uri.joinPath(hooksUri, fileName);
+        try {
+            const data = parseYaml(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8')) as Record<string, unknown> | null;
+            if (!data || data.enabled === false) {
+                continue;
+            }
+            if (!HOOK_TRIGGERS.includes(data.on as HookTrigger)) {
+                throw new Error(`"on" must be one of ${HOOK_TRIGGERS.join(', ')}`);
+            }
+            const actions = ['run', 'prompt', 'command'].filter(key => typeof data[key] === 'string' && data[key]);
+            if (actions.length !== 1) {
+                throw new Error('exactly one of "run", "prompt" or "command" is required');
+            }
+            if (data.on === 'file-saved' && typeof data.pattern !== 'string') {
+                throw new Error('file-saved hooks need a "pattern"');
+            }
+
+            hooks.push({
+                name: typeof data.name === 'string' ? data.name : fileName.replace(/\.ya?ml$/, ''),
+                uri,
+                folder,
+                on: data.on as HookTrigger,
+                features: toStringList(data.feature),
+                phases: toStringList(data.phase),
+                pattern: typeof data.pattern === 'string' ? data.pattern : null,
+                run: typeof data.run === 'string' ? data.run : null,
+                prompt: typeof data.prompt === 'string' ? data.prompt : null,
+                command: typeof data.command === 'string' ? data.command : null,
+                args: Array.isArray(data.args) ? data.args : []
+            });
+        } catch (error) {
+            hookOutputChannel.appendLine(`Skipping hook ${uri.fsPath}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    return hooks;
+}
+
+function hookMatches(hook: HookDefinition, trigger: HookTrigger, context: HookContext): boolean {
+    if (hook.on !== trigger) {
+        return false;
+    }
+    if (hook.features.length > 0 && (!context.feature || !hook.features.includes(splitFeatureKey(context.feature).name))) {
+        return false;
+    }
+    if (trigger === 'phase-saved' && hook.phases.length > 0 && (!context.phase || !hook.phases.includes(context.phase))) {
+        return false;
+    }
+    return trigger !== 'file-saved' || (!!context.document && !!hook.pattern &&
+        vscode.languages.match({ pattern: new vscode.RelativePattern(hook.folder, hook.pattern) }, context.document) > 0);
+}
+
+/**
+ * Values passed to hooks: ${name} placeholders in prompts and command arguments, CODEP_* environment
+ * variables for shell commands (never substituted into the command line, as task text is free-form)
+ */
+async function getHookVariables(hook: HookDefinition, context: HookContext): Promise<Record<string, string>> {
+    const variables: Record<string, string> = {
+        workspaceFolder: hook.folder.uri.fsPath,
+        feature: context.feature ? splitFeatureKey(context.feature).name : '',
+        phase: context.phase ?? '',
+        file: context.document ? vscode.workspace.asRelativePath(context.document.uri, false) : '',
+        task: '',
+        taskText: ''
+    };
+
+    if (context.feature && context.taskIndex !== undefined) {
+        const tasksFilePath = await findTasksFile(context.feature);
+        const task = tasksFilePath ? (await parseTasksFromFile(tasksFilePath))[context.taskIndex] : undefined;
+        variables.task = task ? getTaskLabel(task) : String(context.taskIndex + 1);
+        variables.taskText = task?.text.replace(/^\d+(?:\.\d+)*\.?\s+/, '') ?? '';
+    }
+    return variables;
+}
+
+function substituteHookVariables(value: string, variables: Record<string, string>): string {
+    return value.replace(/\$\{(\w+)\}/g, (match, name) => variables[name] ?? match);
+}
+
+async function executeHook(hook: HookDefinition, trigger: HookTrigger, context: HookContext): Promise<void> {
+    const variables = await getHookVariables(hook, context);
+    const subject = [variables.feature, variables.task && `task ${variables.task}`, variables.file].filter(Boolean).join(' ');
+    hookOutputChannel.appendLine(`[${new Date().toLocaleTimeString()}] ${trigger}${subject ? ` (${subject})` : ''}: running hook "${hook.name}"`);
+
+    if (hook.run) {
+        const env = Object.fromEntries(Object.entries(variables).map(([name, value]) => [
+            `CODEP_${name.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase()}`,
+            value
+        ]));
+        const task = new vscode.Task(
+            { type: HOOK_TASK_TYPE, hook: hook.name },
+            hook.folder,
+            hook.name,
+            'codep',
+            new vscode.ShellExecution(hook.run, { cwd: hook.folder.uri.fsPath, env })
+        );
+        task.presentationOptions = { reveal: vscode.TaskRevealKind.Silent, panel: vscode.TaskPanelKind.Dedicated, clear: true };
+        hookOutputChannel.appendLine(`  $ ${hook.run}`);
+        await vscode.tasks.executeTask(task);
+    } else if (hook.prompt) {
+        const prompt = substituteHookVariables(hook.prompt, variables);
+        hookOutputChannel.appendLine(`  chat: ${prompt}`);
+        await vscode.commands.executeCommand('workbench.action.chat.open', prompt);
+    } else if (hook.command) {
+        const args = hook.args.map(arg => typeof arg === 'string' ? substituteHookVariables(arg, variables) : arg);
+        hookOutputChannel.appendLine(`  command: ${hook.command}${args.length > 0 ? ` ${JSON.stringify(args)}` : ''}`);
+        await vscode.commands.executeCommand(hook.command, ...args);
+    }
+}
+
+/**
+ * Run the hooks of the affected workspace folder that match a trigger. Hooks only run in trusted
+ * workspaces, and a failing hook never interrupts the task or save that triggered it
+ */
+async function runHooks(trigger: HookTrigger, context: HookContext): Promise<void> {
+    try {
+        const folder = context.document
+            ? vscode.workspace.getWorkspaceFolder(context.document.uri)
+            : context.feature ? splitFeatureKey(context.feature).folder ?? vscode.workspace.workspaceFolders?.[0] : undefined;
+        if (!folder) {
+            return;
+        }
+
+        const hooks = (await loadHooks(folder)).filter(hook => hookMatches(hook, trigger, context));
+        if (hooks.length === 0) {
+            return;
+        }
+        if (!vscode.workspace.isTrusted) {
+            hookOutputChannel.appendLine(`Skipped ${hooks.length} ${trigger} hook(s): the workspace is not trusted`);
+            return;
+        }
+
+        for (const hook of hooks) {
+            try {
+                await executeHook(hook, trigger, context);
+            } catch (error) {
+                hookOutputChannel.appendLine(`  hook "${hook.name}" failed: ${error}`);
+                vscode.window.showWarningMessage(`Code:P hook "${hook.name}" failed: ${error}`, 'Show Output').then(selection => {
+                    if (selection === 'Show Output') {
+                        hookOutputChannel.show();
+                    }
+                });
+            }
+        }
+    } catch (error) {
+        outputChannel.appendLine(`Error running ${trigger} hooks: ${error}`);
+    }
+}
+
+// ===== STEERING =====
+
+const STEERING_DIRECTORY = '.github/steering';
+
+/**
+ * Steering documents of a workspace folder, skipping those with an invalid inclusion rule
+ */
+async function loadSteeringDocuments(folder: vscode.WorkspaceFolder): Promise<SteeringDocument[]> {
+    const steeringUri = vscode.Uri.joinPath(folder.uri, ...STEERING_DIRECTORY.split('/'));
+    if (!(await directoryExists(steeringUri))) {
+        return [];
+    }
+
+    const documents: SteeringDocument[] = [];
+    for (const [fileName, type] of await vscode.workspace.fs.readDirectory(steeringUri)) {
+        if (type !== vscode.FileType.File || !fileName.endsWith('.md')) {
+            continue;
+        }
+        const uri = vscode.Uri.joinPath(steeringUri, fileName);
+        const { content, data } = parseFrontMatter(await readTextFile(uri) ?? '');
+        const inclusion = getSteeringInclusion(data);
+        if (!inclusion) {
+            outputChannel.appendLine(`Skipping steering document ${uri.fsPath}: unknown inclusion "${data.inclusion}"`);
+            continue;
+        }
+        documents.push({ name: fileName.replace(/\.md$/, ''), uri, inclusion, content: content.trim() });
+    }
+    return documents.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function isSteeringApplicable(document: SteeringDocument, files: vscode.Uri[], mentions: string[]): boolean {
+    switch (document.inclusion.mode) {
+        case 'always':
+            return true;
+        case 'fileMatch':
+            return files.some(file => matchesGlob(vscode.workspace.asRelativePath(file, false), document.inclusion.pattern!));
+        case 'manual':
+            return mentions.includes(document.name);
+    }
+}
+
+/**
+ * Files that fileMatch steering is matched against: the active editor and the feature's spec documents
+ */
+async function getSteeringContextFiles(feature?: string | null): Promise<vscode.Uri[]> {
+    const files = feature ? (await findSpecFiles(feature)).map(file => vscode.Uri.file(file)) : [];
+    const activeEditor = vscode.window.activeTextEditor;
+    if (activeEditor?.document.uri.scheme === 'file') {
+        files.push(activeEditor.document.uri);
+    }
+    return files;
+}
+
+/**
+ * Steering documents that apply to a feature, or to the active editor without one. Manual steering
+ * applies when the text mentions it as #name
+ */
+async function getApplicableSteering(feature?: string | null, text = ''): Promise<SteeringDocument[]> {
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const folder = feature
+        ? splitFeatureKey(feature).folder ?? vscode.workspace.workspaceFolders?.[0]
+        : (activeUri ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined) ?? vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+        return [];
+    }
+
+    const files = await getSteeringContextFiles(feature);
+    const mentions = [...text.matchAll(/#([\w.-]+)/g)].map(match => match[1]);
+    return (await loadSteeringDocuments(folder)).filter(document => isSteeringApplicable(document, files, mentions));
+}
+
+/**
+ * Open the chat with a spec prompt, attaching the applicable steering documents as #file references
+ */
+async function openSpecChat(query: string, feature?: string | null): Promise<void> {
+    const steering = await getApplicableSteering(feature, query);
+    const references = steering.map(document => ` #file:${vscode.workspace.asRelativePath(document.uri, false)}`).join('');
+    if (steering.length > 0) {
+        outputChannel.appendLine(`Steering for ${query}: ${steering.map(document => document.name).join(', ')}`);
+    }
+    await vscode.commands.executeCommand('workbench.action.chat.open', query + references);
+}
+
+/**
+ * Applicable steering as prompt context, each document also shown as a reference in the response
+ */
+async function buildSteeringContext(feature: string | null, text: string, stream: vscode.ChatResponseStream): Promise<string> {
+    const steering = await getApplicableSteering(feature, text);
+    for (const document of steering) {
+        stream.reference(document.uri);
+    }
+    return steering.length > 0
+        ? `## Steering\n\nFollow these project conventions.\n\n${steering.map(document => `### ${document.name}\n\n${document.content}`).join('\n\n')}`
+        : '';
+}
+
+/**
+ * List the steering documents of the active editor's folder, those that apply to the editor first
+ */
+async function previewSteering(): Promise<void> {
+    try {
+        const activeEditor = vscode.window.activeTextEditor;
+        const folder = activeEditor
+            ? vscode.workspace.getWorkspaceFolder(activeEditor.document.uri)
+            : await pickWorkspaceFolder('Select the workspace folder whose steering to preview');
+        if (!folder) {
+            vscode.window.showInformationMessage('Open a file of the workspace to preview the steering that applies to it.');
+            return;
+        }
+
+        const documents = await loadSteeringDocuments(folder);
+        if (documents.length === 0) {
+            vscode.window.showInformationMessage(`No steering documents found in ${STEERING_DIRECTORY}.`);
+            return;
+        }
+
+        const feature = activeEditor && isSpecFile(activeEditor.document.uri.fsPath) ? getSpecFeature(activeEditor.document.uri.fsPath) : null;
+        const files = await getSteeringContextFiles(feature);
+        const items = documents.map(document => {
+            const applies = isSteeringApplicable(document, files, []);
+            const { mode, pattern } = document.inclusion;
+            return {
+                label: `${applies ? '$(check)' : '$(circle-slash)'} ${document.name}`,
+                description: mode === 'fileMatch' ? `fileMatch ${pattern}` : mode === 'manual' ? `manual, mention #${document.name}` : 'always',
+                detail: document.content.split('\n').find(line => line.trim())?.replace(/^#+\s*/, ''),
+                applies,
+                uri: document.uri
+            };
+        }).sort((a, b) => Number(b.applies) - Number(a.applies));
+
+        const target = activeEditor ? activeEditor.document.uri.path.split('/').pop() : folder.name;
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: `${items.filter(item => item.applies).length} of ${items.length} steering documents apply to ${target}`
+        });
+        if (selected) {
+            await vscode.commands.executeCommand('vscode.open', selected.uri);
+        }
+    } catch (error) {
+        const errorMessage = `Error previewing steering: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
+    }
+}
+
+// ===== REQUIREMENTS TRACEABILITY =====
+
+async function parseRequirementsFromFile(filePath: string): Promise<RequirementItem[]> {
+    try {
+        const content = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+        return parseRequirementsFromContent(Buffer.from(content).toString('utf8'));
+    } catch (error) {
+        outputChannel.appendLine(`Error parsing requirements from ${filePath}: ${error}`);
+        return [];
+    }
+}
+
+async function getTraceabilityReport(feature: string): Promise<TraceabilityReport | null> {
+    const requirementsFilePath = await findPhaseDocument(feature, 'requirements');
+    const tasksFilePath = await findTasksFile(feature);
+
+    if (!requirementsFilePath || !tasksFilePath) {
+        return null;
+    }
+
+    const requirements = await parseRequirementsFromFile(requirementsFilePath);
+    const tasks = await parseTasksFromFile(tasksFilePath);
+    return buildTraceabilityReport(feature, requirements, tasks);
+}
+
+async function showTraceability(): Promise<void> {
+    try {
+        const feature = await pickSpecFeature('Select a specification feature to trace');
+        if (!feature) {
+            return;
+        }
+
+        const report = await getTraceabilityReport(feature);
+        if (!report) {
+            vscode.window.showInformationMessage(`${feature} needs both a requirements and a tasks document to be traced.`);
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument({
+            content: formatTraceabilityReport(report),
+            language: 'markdown'
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+
+        const issues = report.uncoveredCriteria.length + report.danglingReferences.length;
+        outputChannel.appendLine(`Traceability for ${feature}: ${report.uncoveredCriteria.length} uncovered criteria, ${report.danglingReferences.length} unknown references`);
+        if (issues > 0) {
+            vscode.window.showWarningMessage(`${feature}: ${report.uncoveredCriteria.length} uncovered acceptance criteria, ${report.danglingReferences.length} unknown requirement references.`);
+        }
+    } catch (error) {
+        const errorMessage = `Error showing traceability: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
+    }
+}
+
+// ===== SPEC EXPORT =====
+
+const SPEC_EXPORT_FORMATS = [
+    { label: 'HTML', description: 'Self-contained page for reviewers', extension: 'html' },
+    { label: 'Markdown', description: 'Every phase document in one file', extension: 'md' },
+    { label: 'JSON', description: 'Parsed model for other tools', extension: 'json' }
+];
+
+/**
+ * A standalone HTML page of a Markdown bundle, rendered by the built-in Markdown extension like its preview
+ */
+async function renderSpecHtml(title: string, markdown: string): Promise<string> {
+    let body: string;
+    try {
+        body = await vscode.commands.executeCommand<string>('markdown.api.render', markdown);
+    } catch (error) {
+        outputChannel.appendLine(`Markdown rendering unavailable, exporting the source instead: ${error}`);
+        body = `<pre>${escapeHtml(markdown)}</pre>`;
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; line-height: 1.5; max-width: 960px; margin: 0 auto; padding: 2em; color: #1f2328; }
+        table { border-collapse: collapse; margin: 1em 0; }
+        th, td { border: 1px solid #d0d7de; padding: 4px 10px; text-align: left; vertical-align: top; }
+        code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; background: #f6f8fa; }
+        pre { padding: 1em; overflow-x: auto; }
+        h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 0.3em; margin-top: 2em; }
+    </style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Export a feature as one HTML or Markdown document for review outside the editor, or as JSON
+ */
+async function exportSpec(featureOrNode?: string | SpecTreeNode): Promise<void> {
+    try {
+        const feature = await resolveFeatureArgument(featureOrNode, 'Select the specification feature to export');
+        const model = feature ? await loadWorkspaceFeature(feature) : null;
+        if (!feature || !model) {
+            return;
+        }
+
+        const format = await vscode.window.showQuickPick(SPEC_EXPORT_FORMATS, { placeHolder: `Export ${feature} as` });
+        if (!format) {
+            return;
+        }
+
+        const { folder, name } = splitFeatureKey(feature);
+        const root = folder ?? vscode.workspace.workspaceFolders?.[0];
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: root ? vscode.Uri.joinPath(root.uri, `${name}-spec.${format.extension}`) : undefined,
+            filters: { [format.label]: [format.extension] },
+            saveLabel: 'Export'
+        });
+        if (!target) {
+            return;
+        }
+
+        const exportedAt = new Date().toISOString();
+        let content: string;
+        if (format.extension === 'json') {
+            content = JSON.stringify(buildSpecExport(model, exportedAt), null, 2) + '\n';
+        } else {
+            const markdown = formatSpecBundle(model, exportedAt);
+            content = format.extension === 'html' ? await renderSpecHtml(`Specification: ${feature}`, markdown) : markdown;
+        }
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+        outputChannel.appendLine(`Exported ${feature} as ${format.label} to ${target.fsPath}`);
+
+        const selection = await vscode.window.showInformationMessage(`Exported ${feature} to ${target.path.split('/').pop()}`, 'Open');
+        if (selection === 'Open') {
+            // HTML is meant for a browser; the other formats open in an editor
+            if (format.extension === 'html') {
+                await vscode.env.openExternal(target);
+            } else {
+                await vscode.commands.executeCommand('vscode.open', target);
+            }
+        }
+    } catch (error) {
+        const errorMessage = `Error exporting specification: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
+    }
+}
+
+// ===== EARS REQUIREMENTS LINTER =====
+
+// Source of every Code:P diagnostic: code action providers tell the linters apart by diagnostic code
+const DIAGNOSTIC_SOURCE = 'Code:P';
+
+enum RequirementsDiagnosticCode {
+    EarsPattern = 'ears-pattern',
+    EarsKeywordCase = 'ears-keyword-case',
+    UserStory = 'user-story',
+    DuplicateRequirement = 'duplicate-requirement',
+    DuplicateCriterion = 'duplicate-criterion'
+}
+
+function isRequirementsDocument(document: vscode.TextDocument): boolean {
+    return isSpecFile(document.fileName) && getDocumentPhase(document.fileName) === 'requirements';
+}
+
+function lintRequirementsContent(content: string): vscode.Diagnostic[] {
+    const lines = content.split('\n');
+    const requirements = parseRequirementsFromContent(content);
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    const lineRange = (line: number, text?: string) => {
+        const start = text ? Math.max(lines[line].indexOf(text), 0) : lines[line].search(/\S|$/);
+        return new vscode.Range(line, start, line, lines[line].length);
+    };
+    const push = (range: vscode.Range, message: string, severity: vscode.DiagnosticSeverity, code: RequirementsDiagnosticCode) => {
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = code;
+        diagnostics.push(diagnostic);
+    };
+
+    const seenRequirements = new Set<string>();
+    for (const requirement of requirements) {
+        if (seenRequirements.has(requirement.id)) {
+            push(lineRange(requirement.line), `Duplicate requirement number ${requirement.id}`, vscode.DiagnosticSeverity.Error, RequirementsDiagnosticCode.DuplicateRequirement);
+        }
+        seenRequirements.add(requirement.id);
+
+        if (requirement.userStory === null || requirement.userStoryLine === null) {
+            push(lineRange(requirement.line), `Requirement ${requirement.id} has no user story`, vscode.DiagnosticSeverity.Warning, RequirementsDiagnosticCode.UserStory);
+        } else if (!isUserStory(requirement.userStory)) {
+            push(lineRange(requirement.userStoryLine, requirement.userStory), 'User story should read "As a [role], I want [feature], so that [benefit]"', vscode.DiagnosticSeverity.Warning, RequirementsDiagnosticCode.UserStory);
+        }
+
+        const seenCriteria = new Set<string>();
+        for (const criterion of requirement.criteria) {
+            if (seenCriteria.has(criterion.id)) {
+                push(lineRange(criterion.line), `Duplicate acceptance criterion number ${criterion.id}`, vscode.DiagnosticSeverity.Error, RequirementsDiagnosticCode.DuplicateCriterion);
+            }
+            seenCriteria.add(criterion.id);
+
+            const text = normalizeCriterion(criterion.text);
+            if (!classifyEarsCriterion(text)) {
+                push(lineRange(criterion.line, criterion.text), `Acceptance criterion ${criterion.id} does not follow an EARS pattern (ubiquitous, WHEN, WHILE, IF/THEN, WHERE ... SHALL)`, vscode.DiagnosticSeverity.Warning, RequirementsDiagnosticCode.EarsPattern);
+            } else if (uppercaseEarsKeywords(text) !== text) {
+                push(lineRange(criterion.line, criterion.text), `EARS keywords in acceptance criterion ${criterion.id} should be uppercase`, vscode.DiagnosticSeverity.Information, RequirementsDiagnosticCode.EarsKeywordCase);
+            }
+        }
+    }
+
+    return diagnostics;
+}
+
+function updateRequirementsDiagnostics(document: vscode.TextDocument): void {
+    if (!requirementsDiagnostics || !isRequirementsDocument(document)) {
+        return;
+    }
+    requirementsDiagnostics.set(document.uri, lintRequirementsContent(document.getText()));
+}
+
+class RequirementsCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    public provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+                continue;
+            }
+
+            switch (diagnostic.code) {
+                case RequirementsDiagnosticCode.EarsPattern:
+                    actions.push(...this.fixModalVerb(document, diagnostic));
+                    break;
+                case RequirementsDiagnosticCode.EarsKeywordCase:
+                    actions.push(this.fixKeywordCase(document, diagnostic));
+                    break;
+                case RequirementsDiagnosticCode.UserStory:
+                    actions.push(this.insertUserStory(document, diagnostic));
+                    break;
+                case RequirementsDiagnosticCode.DuplicateRequirement:
+                    actions.push(this.renumberRequirements(document, diagnostic));
+                    break;
+                case RequirementsDiagnosticCode.DuplicateCriterion:
+                    actions.push(this.renumberCriteria(document, diagnostic));
+                    break;
+            }
+        }
+
+        return actions;
+    }
+
+    private createFix(title: string, diagnostic: vscode.Diagnostic, edit: vscode.WorkspaceEdit): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.edit = edit;
+        return action;
+    }
+
+    private fixModalVerb(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        // "should", "must" and "will" are the usual stand-ins for SHALL
+        const line = document.lineAt(diagnostic.range.start.line);
+        const match = line.text.match(/\b(should|must|will)\b/i);
+        if (!match || match.index === undefined || /\bshall\b/i.test(line.text)) {
+            return [];
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, new vscode.Range(line.lineNumber, match.index, line.lineNumber, match.index + match[1].length), 'SHALL');
+        return [this.createFix(`Replace '${match[1]}' with 'SHALL'`, diagnostic, edit)];
+    }
+
+    private fixKeywordCase(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const line = document.lineAt(diagnostic.range.start.line);
+        const newText = line.text.replace(/^(\s*\d+\.\s+)(.*)$/, (_, prefix: string, text: string) => prefix + uppercaseEarsKeywords(text));
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, line.range, newText);
+        return this.createFix('Uppercase EARS keywords', diagnostic, edit);
+    }
+
+    private insertUserStory(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const template = '**User Story:** As a [role], I want [feature], so that [benefit]';
+        const line = document.lineAt(diagnostic.range.start.line);
+        const edit = new vscode.WorkspaceEdit();
+
+        if (/^#{2,6}\s/.test(line.text)) {
+            // Missing story: insert the template under the requirement heading
+            edit.insert(document.uri, line.range.end, `\n\n${template}`);
+            return this.createFix('Insert user story template', diagnostic, edit);
+        }
+
+        edit.replace(document.uri, diagnostic.range, template.replace('**User Story:** ', ''));
+        return this.createFix('Replace with user story template', diagnostic, edit);
+    }
+
+    private renumberRequirements(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const edit = new vscode.WorkspaceEdit();
+        parseRequirementsFromContent(document.getText()).forEach((requirement, index) => {
+            const line = document.lineAt(requirement.line);
+            const match = line.text.match(/^(#{2,6}\s+(?:Requirement\s+)?)(\d+)/i);
+            if (match && match[2] !== String(index + 1)) {
+                edit.replace(document.uri, new vscode.Range(line.lineNumber, match[1].length, line.lineNumber, match[1].length + match[2].length), String(index + 1));
+            }
+        });
+        return this.createFix('Renumber requirements sequentially', diagnostic, edit);
+    }
+
+    private renumberCriteria(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const edit = new vscode.WorkspaceEdit();
+        const requirement = parseRequirementsFromContent(document.getText())
+            .find(candidate => candidate.criteria.some(criterion => criterion.line === diagnostic.range.start.line));
+
+        requirement?.criteria.forEach((criterion, index) => {
+            const line = document.lineAt(criterion.line);
+            const match = line.text.match(/^(\s*)(\d+)\./);
+            if (match && match[2] !== String(index + 1)) {
+                edit.replace(document.uri, new vscode.Range(line.lineNumber, match[1].length, line.lineNumber, match[1].length + match[2].length), String(index + 1));
+            }
+        });
+        return this.createFix(`Renumber acceptance criteria of requirement ${requirement?.id ?? ''}`.trim(), diagnostic, edit);
+    }
+}
+
+// ===== TASK PLAN LINTER =====
+
+const TASK_PLAN_DIAGNOSTIC_CODES: TaskPlanIssue['code'][] = ['task-number', 'task-numbering', 'task-nesting', 'task-checkbox', 'task-requirements'];
+
+function lintTasksDocument(document: vscode.TextDocument): vscode.Diagnostic[] {
+    // Plans of workflows without a requirements phase have nothing to cite
+    const layout = getSpecLocation(document.uri.fsPath)?.layout;
+    const requireReferences = !!layout?.phases.some(phase => phase.id === 'requirements');
+
+    return lintTaskPlan(document.getText(), requireReferences).map(issue => {
+        const line = document.lineAt(issue.line);
+        const range = new vscode.Range(issue.line, line.firstNonWhitespaceCharacterIndex, issue.line, line.text.length);
+        const diagnostic = new vscode.Diagnostic(range, issue.message, vscode.DiagnosticSeverity.Warning);
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = issue.code;
+        return diagnostic;
+    });
+}
+
+function updateTasksDiagnostics(document: vscode.TextDocument): void {
+    if (!tasksDiagnostics || !isTasksDocument(document.fileName)) {
+        return;
+    }
+    tasksDiagnostics.set(document.uri, lintTasksDocument(document));
+}
+
+class TasksCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    public provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        // Renumbering and normalizing fix the whole plan, so one action covers every diagnostic of its kind
+        const offered = new Set<string>();
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DIAGNOSTIC_SOURCE || !TASK_PLAN_DIAGNOSTIC_CODES.includes(diagnostic.code as TaskPlanIssue['code'])) {
+                continue;
+            }
+
+            switch (diagnostic.code) {
+                case 'task-number':
+                case 'task-numbering':
+                    // Unnumbered checklists in a numbered plan are not tasks, so renumbering leaves them alone
+                    if (!offered.has('renumber') && parseTasksFromContent(document.getText()).some(task => task.line === diagnostic.range.start.line)) {
+                        offered.add('renumber');
+                        actions.push(this.renumberTasks(document, diagnostic));
+                    }
+                    break;
+                case 'task-checkbox':
+                    if (!offered.has('checkbox')) {
+                        offered.add('checkbox');
+                        actions.push(this.normalizeCheckboxes(document, diagnostic));
+                    }
+                    break;
+                case 'task-requirements':
+                    actions.push(this.insertRequirementsReference(document, diagnostic));
+                    break;
+            }
+        }
+
+        return actions;
+    }
+
+    private createFix(title: string, diagnostic: vscode.Diagnostic, edit: vscode.WorkspaceEdit): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.edit = edit;
+        return action;
+    }
+
+    private renumberTasks(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const edit = new vscode.WorkspaceEdit();
+        const tasks = parseTasksFromContent(document.getText());
+        const expected = getExpectedTaskNumbers(tasks);
+
+        for (const task of tasks) {
+            const line = document.lineAt(task.line);
+            const match = line.text.match(/^\s*-\s*\[[xX ]\]\s*/);
+            if (!match) {
+                continue;
+            }
+            const column = match[0].length;
+            const number = expected[task.index];
+            if (task.number === null) {
+                // Top-level tasks read "2. ", sub-tasks "2.1 "
+                edit.insert(document.uri, new vscode.Position(task.line, column), number.includes('.') ? `${number} ` : `${number}. `);
+            } else if (task.number !== number) {
+                edit.replace(document.uri, new vscode.Range(task.line, column, task.line, column + task.number.length), number);
+            }
+        }
+        return this.createFix('Renumber tasks sequentially', diagnostic, edit);
+    }
+
+    private normalizeCheckboxes(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const edit = new vscode.WorkspaceEdit();
+        // Only the lines the linter reported, which leaves checklists in code samples alone
+        for (const issue of lintTaskPlan(document.getText()).filter(issue => issue.code === 'task-checkbox')) {
+            const line = document.lineAt(issue.line);
+            edit.replace(document.uri, line.range, normalizeTaskCheckbox(line.text) ?? line.text);
+        }
+        return this.createFix('Normalize task checkboxes', diagnostic, edit);
+    }
+
+    private insertRequirementsReference(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+        const line = document.lineAt(diagnostic.range.start.line);
+        const indent = line.text.slice(0, line.firstNonWhitespaceCharacterIndex);
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(document.uri, line.range.end, `\n${indent}  - _Requirements: _`);
+        return this.createFix('Insert requirements reference', diagnostic, edit);
+    }
+}
+
+// ===== REQUIREMENT REFERENCES =====
+
+/**
+ * Content of a spec document, taken from its editor when open so unsaved edits line up
+ */
+function getSpecDocumentText(document: SpecDocument): string {
+    const uri = vscode.Uri.file(document.path);
+    return vscode.workspace.textDocuments.find(candidate => candidate.uri.fsPath === uri.fsPath)?.getText() ?? document.content;
+}
+
+/**
+ * The requirements document of a feature with its parsed requirements
+ */
+async function getFeatureRequirements(feature: string): Promise<{ uri: vscode.Uri; requirements: RequirementItem[] } | null> {
+    const model = await loadWorkspaceFeature(feature);
+    const document = model?.phases.find(state => state.phase === 'requirements')?.document;
+    if (!document) {
+        return null;
+    }
+    return { uri: vscode.Uri.file(document.path), requirements: parseRequirementsFromContent(getSpecDocumentText(document)) };
+}
+
+/**
+ * A citation covers a requirement when it names the requirement or one of its criteria, and a
+ * criterion when it names the criterion or its whole requirement
+ */
+function citesRequirement(reference: string, id: string): boolean {
+    const requirementId = id.split('.')[0];
+    return id === requirementId
+        ? reference === id || reference.startsWith(`${id}.`)
+        : referenceCovers(reference, requirementId, id);
+}
+
+function formatRequirementHover(id: string, requirementsUri: vscode.Uri, definition: ReturnType<typeof findRequirementDefinition>): vscode.MarkdownString {
+    const fileName = requirementsUri.path.split('/').pop();
+    if (!definition) {
+        return new vscode.MarkdownString(`$(warning) Requirement ${id} is not defined in ${fileName}`, true);
+    }
+
+    const { requirement, criterion } = definition;
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**Requirement ${requirement.id}${requirement.title ? `: ${requirement.title}` : ''}**\n\n`);
+    if (requirement.userStory) {
+        markdown.appendMarkdown(`*${requirement.userStory}*\n\n`);
+    }
+    for (const item of criterion ? [criterion] : requirement.criteria) {
+        markdown.appendMarkdown(`- **${item.id}** ${item.text}\n`);
+    }
+    return markdown;
+}
+
+/**
+ * Hover, go to definition and find references for requirement citations such as
+ * "_Requirements: 1.2, 3.1_" in spec documents. References also work from a requirement
+ * heading or acceptance criterion in the requirements document itself
+ */
+class RequirementReferenceProvider implements vscode.HoverProvider, vscode.DefinitionProvider, vscode.ReferenceProvider {
+    public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const citation = await this.getCitation(document, position);
+        if (!citation) {
+            return undefined;
+        }
+        return new vscode.Hover(formatRequirementHover(citation.id, citation.requirementsUri, citation.definition), citation.range);
+    }
+
+    public async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location | undefined> {
+        const citation = await this.getCitation(document, position);
+        if (!citation?.definition) {
+            return undefined;
+        }
+        const { requirement, criterion } = citation.definition;
+        return new vscode.Location(citation.requirementsUri, new vscode.Position(criterion?.line ?? requirement.line, 0));
+    }
+
+    public async provideReferences(document: vscode.TextDocument, position: vscode.Position, context: vscode.ReferenceContext): Promise<vscode.Location[]> {
+        const feature = isSpecFile(document.uri.fsPath) ? getSpecFeature(document.uri.fsPath) : null;
+        const id = feature ? (await this.getCitation(document, position))?.id ?? this.getRequirementAt(document, position) : null;
+        const model = feature && id ? await loadWorkspaceFeature(feature) : null;
+        if (!model || !id) {
+            return [];
+        }
+
+        const locations: vscode.Location[] = [];
+        if (context.includeDeclaration) {
+            const requirements = await getFeatureRequirements(model.name);
+            const definition = requirements ? findRequirementDefinition(requirements.requirements, id) : null;
+            if (requirements && definition) {
+                locations.push(new vscode.Location(requirements.uri, new vscode.Position(definition.criterion?.line ?? definition.requirement.line, 0)));
+            }
+        }
+
+        // Every design section and task citing the requirement, in whichever phase documents the workflow has
+        for (const state of model.phases.filter(state => state.phase !== 'requirements' && state.document)) {
+            const uri = vscode.Uri.file(state.document!.path);
+            for (const reference of findRequirementReferences(getSpecDocumentText(state.document!))) {
+                if (citesRequirement(reference.id, id)) {
+                    locations.push(new vscode.Location(uri, new vscode.Range(reference.line, reference.start, reference.line, reference.end)));
+                }
+            }
+        }
+        return locations;
+    }
+
+    /**
+     * The requirement citation under the cursor in a design, tasks or other non-requirements spec document
+     */
+    private async getCitation(document: vscode.TextDocument, position: vscode.Position) {
+        if (!isSpecFile(document.uri.fsPath) || getDocumentPhase(document.uri.fsPath) === 'requirements') {
+            return null;
+        }
+        const feature = getSpecFeature(document.uri.fsPath);
+        const reference = findRequirementReferences(document.lineAt(position.line).text)
+            .find(candidate => position.character >= candidate.start && position.character <= candidate.end);
+        const requirements = feature && reference ? await getFeatureRequirements(feature) : null;
+        if (!reference || !requirements) {
+            return null;
+        }
+
+        return {
+            id: reference.id,
+            range: new vscode.Range(position.line, reference.start, position.line, reference.end),
+            requirementsUri: requirements.uri,
+            definition: findRequirementDefinition(requirements.requirements, reference.id)
+        };
+    }
+
+    /**
+     * The requirement or criterion on the cursor line of the requirements document
+     */
+    private getRequirementAt(document: vscode.TextDocument, position: vscode.Position): string | null {
+        if (getDocumentPhase(document.uri.fsPath) !== 'requirements') {
+            return null;
+        }
+        for (const requirement of parseRequirementsFromContent(document.getText())) {
+            const criterion = requirement.criteria.find(candidate => candidate.line === position.line);
+            if (criterion) {
+                return criterion.id;
+            }
+            if (requirement.line === position.line || requirement.userStoryLine === position.line) {
+                return requirement.id;
+            }
+        }
+        return null;
+    }
+}
+
+// ===== CODELENS PROVIDER FOR TASK INTERACTION =====
+
+class TaskCodeLensProvider implements vscode.CodeLensProvider {
+    private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    public readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+
+    public async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+        const codeLenses: vscode.CodeLens[] = [];
+        
+        // Only provide CodeLenses for task documents
+        if (!isTasksDocument(document.fileName)) {
+            return codeLenses;
+        }
+        
+        const feature = getSpecFeature(document.fileName);
+        if (!feature) return codeLenses;
+        
+        const tasks = parseTasksFromContent(document.getText());
+        const activeTask = getActiveTask(feature);
+        const commits = isTaskCommitEnabled(feature) && tasks.some(task => task.completed)
+            ? await getTaskCommits(document.uri, feature).catch(() => new Map<string, string>())
+            : new Map<string, string>();
+        
+        for (const task of tasks) {
+            const isCurrentTask = activeTask?.task === getTaskLabel(task);
+            
+            const range = new vscode.Range(task.line, 0, task.line, 0);
+            let title: string;
+            let command: vscode.Command | undefined;
+            
+            if (task.completed) {
+                title = '$(check) Task Complete';
+                command = undefined; // Reopen has its own action
+            } else if (isCurrentTask) {
+                title = '$(sync~spin) Implementing...';
+                command = undefined; // No click action while implementing
+            } else {
+                // Parent tasks start their first open sub-task
+                const startIndex = findStartableTaskIndex(tasks, task.index);
+                title = startIndex === task.index
+                    ? '$(play) Start Task'
+                    : `$(play) Start Task ${getTaskLabel(tasks[startIndex])}`;
+                command = {
+                    title: 'Start Task Implementation',
+                    command: 'codep.startTask',
+                    arguments: [feature, startIndex]
+                };
+            }
+            
+            codeLenses.push(new vscode.CodeLens(range, command ? {
+                title,
+                command: command.command,
+                arguments: command.arguments
+            } : {
+                title,
+                command: ''
+            }));
+            
+            if (isCurrentTask && !task.completed) {
+                codeLenses.push(new vscode.CodeLens(range, {
+                    title: '$(debug-stop) Stop',
+                    command: 'codep.stopTask',
+                    arguments: [feature]
+                }));
+            }
+            
+            codeLenses.push(new vscode.CodeLens(range, task.completed ? {
+                title: '$(discard) Reopen',
+                command: 'codep.reopenTask',
+                arguments: [feature, task.index]
+            } : {
+                title: '$(check) Mark Complete',
+                command: 'codep.markTaskComplete',
+                arguments: [feature, task.index]
+            }));
+            
+            // Plans written before commits were looked up in the history carry a "(commit <sha>)" note
+            const commit = task.commit ?? commits.get(getTaskLabel(task));
+            if (task.completed && commit) {
+                codeLenses.push(new vscode.CodeLens(range, {
+                    title: `$(git-commit) Show Commit ${commit}`,
+                    command: 'codep.showTaskCommit',
+                    arguments: [document.uri, commit]
+                }));
+            }
+        }
+        
+        if (tasks.some(task => task.completed)) {
+            codeLenses.push(new vscode.CodeLens(new vscode.Range(tasks[0].line, 0, tasks[0].line, 0), {
+                title: '$(clear-all) Reset All Tasks',
+                command: 'codep.resetTasks',
+                arguments: [feature]
+            }));
+        }
+        
+        return codeLenses;
+    }
+
+    public refresh(): void {
+        this._onDidChangeCodeLenses.fire();
+    }
+}
+
+// ===== SPEC EXPLORER TREE VIEW =====
+
+class SpecExplorerProvider implements vscode.TreeDataProvider<SpecTreeNode> {
+    private _onDidChangeTreeData: vscode.EventEmitter<SpecTreeNode | undefined> = new vscode.EventEmitter<SpecTreeNode | undefined>();
+    public readonly onDidChangeTreeData: vscode.Event<SpecTreeNode | undefined> = this._onDidChangeTreeData.event;
+
+    public async getChildren(node?: SpecTreeNode): Promise<SpecTreeNode[]> {
+        try {
+            if (!node) {
+                const features = await findSpecFeatures();
+                const nodes: SpecTreeNode[] = features.sort().map(feature => ({ kind: 'feature', feature }));
+                // Archived features stay browsable below a single node at the end
+                return (await findArchivedFeatures()).length > 0 ? [...nodes, { kind: 'archive' }] : nodes;
+            }
+
+            if (node.kind === 'archive') {
+                return (await findArchivedFeatures()).map(({ feature, uri }) => ({ kind: 'archivedFeature', feature, uri }));
+            }
+
+            if (node.kind === 'archivedFeature') {
+                return (await vscode.workspace.fs.readDirectory(node.uri))
+                    .filter(([name, type]) => type === vscode.FileType.File && name.endsWith('.md'))
+                    .sort(([a], [b]) => a.localeCompare(b))
+                    .map(([name]) => ({ kind: 'archivedFile', uri: vscode.Uri.joinPath(node.uri, name) }));
+            }
+
+            if (node.kind === 'feature') {
+                const files = await findSpecFiles(node.feature);
+                const layout = getFeatureLayout(node.feature);
+                return layout.phases.map(({ id }) => {
+                    const path = findPhaseFile(files, id, layout) ?? null;
+                    return { kind: 'phase', feature: node.feature, phase: id, path };
+                });
+            }
+
+            if (node.kind === 'phase' && node.phase === 'tasks' && node.path) {
+                const path = node.path;
+                const tasks = await parseTasksFromFile(path);
+                return tasks
+                    .filter(task => task.parent === null)
+                    .map(task => ({ kind: 'task', feature: node.feature, path, task }));
+            }
+
+            if (node.kind === 'task' && node.task.children.length > 0) {
+                const path = node.path;
+                const tasks = await parseTasksFromFile(path);
+                return node.task.children
+                    .filter(index => tasks[index])
+                    .map(index => ({ kind: 'task', feature: node.feature, path, task: tasks[index] }));
+            }
+        } catch (error) {
+            outputChannel.appendLine(`Error building spec explorer: ${error}`);
+        }
+
+        return [];
+    }
+
+    public async getTreeItem(node: SpecTreeNode): Promise<vscode.TreeItem> {
+        switch (node.kind) {
+            case 'feature': {
+                const item = new vscode.TreeItem(node.feature, vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = `feature:${node.feature}`;
+                const abandoned = (await loadWorkspaceFeature(node.feature))?.abandoned;
+                if (abandoned) {
+                    item.contextValue = 'feature-abandoned';
+                    item.description = 'abandoned';
+                    item.tooltip = abandoned.reason || undefined;
+                    item.iconPath = new vscode.ThemeIcon('circle-slash');
+                    return item;
+                }
+                item.contextValue = 'feature';
+                item.description = await this.describeFeature(node.feature);
+                item.iconPath = new vscode.ThemeIcon('folder-library');
+                return item;
+            }
+            case 'phase': {
+                const tasks = node.phase === 'tasks' && node.path ? await parseTasksFromFile(node.path) : [];
+                const collapsible = tasks.length > 0
+                    ? vscode.TreeItemCollapsibleState.Expanded
+                    : vscode.TreeItemCollapsibleState.None;
+                const item = new vscode.TreeItem(node.phase, collapsible);
+                item.id = `phase:${node.feature}/${node.phase}`;
+                item.contextValue = node.path ? 'phase' : 'phase-missing';
+
+                if (!node.path) {
+                    item.description = 'not started';
+                    item.iconPath = new vscode.ThemeIcon('circle-large-outline');
+                    return item;
+                }
+
+                const approval = await getPhaseApproval(node.path);
+                const approvalRequired = getFeatureLayout(node.feature).phases.find(phase => phase.id === node.phase)?.approval !== false;
+                const isComplete = node.phase !== 'tasks' || (tasks.length > 0 && tasks.every(task => task.completed));
+                const descriptions: string[] = [];
+                if (node.phase === 'tasks') {
+                    descriptions.push(`${tasks.filter(task => task.completed).length}/${tasks.length}`);
+                }
+
+                if (approval.status === 'approved' && approval.modifiedSinceApproval) {
+                    descriptions.push('changed since approval');
+                    item.iconPath = new vscode.ThemeIcon('warning');
+                } else if (approval.status === 'approved') {
+                    descriptions.push(`approved by ${approval.approver ?? 'unknown'}`);
+                    item.iconPath = new vscode.ThemeIcon(isComplete ? 'pass-filled' : 'pass');
+                } else if (approval.status === 'changes-requested') {
+                    descriptions.push('changes requested');
+                    item.iconPath = new vscode.ThemeIcon('comment-unresolved');
+                    item.tooltip = approval.comment ?? undefined;
+                } else if (!approvalRequired) {
+                    item.iconPath = new vscode.ThemeIcon(isComplete ? 'pass-filled' : 'pass');
+                } else {
+                    descriptions.push('awaiting approval');
+                    item.iconPath = new vscode.ThemeIcon('circle-large-outline');
+                }
+                item.description = descriptions.join(' · ');
+                item.resourceUri = vscode.Uri.file(node.path);
+                item.command = {
+                    title: 'Open',
+                    command: 'vscode.open',
+                    arguments: [vscode.Uri.file(node.path)]
+                };
+                return item;
+            }
+            case 'task': {
+                const { task } = node;
+                const isCurrentTask = getActiveTask(node.feature)?.taskIndex === task.index;
+                const collapsible = task.children.length > 0
+                    ? vscode.TreeItemCollapsibleState.Expanded
+                    : vscode.TreeItemCollapsibleState.None;
+                const item = new vscode.TreeItem(task.text, collapsible);
+                item.id = `task:${node.feature}/${task.index}`;
+                item.tooltip = task.text;
+
+                if (task.completed) {
+                    item.contextValue = 'task-completed';
+                    item.iconPath = new vscode.ThemeIcon('check');
+                } else if (isCurrentTask) {
+                    item.contextValue = 'task-implementing';
+                    item.iconPath = new vscode.ThemeIcon('sync~spin');
+                    item.description = 'Implementing...';
+                } else {
+                    item.contextValue = 'task-pending';
+                    item.iconPath = new vscode.ThemeIcon('circle-outline');
+                }
+
+                item.command = {
+                    title: 'Open Task',
+                    command: 'vscode.open',
+                    arguments: [vscode.Uri.file(node.path), { selection: new vscode.Range(task.line, 0, task.line, 0) }]
+                };
+                return item;
+            }
+            case 'archive': {
+                const item = new vscode.TreeItem('Archive', vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = 'archive';
+                item.iconPath = new vscode.ThemeIcon('archive');
+                return item;
+            }
+            case 'archivedFeature': {
+                const item = new vscode.TreeItem(node.feature, vscode.TreeItemCollapsibleState.Collapsed);
+                item.id = `archived:${node.feature}`;
+                item.contextValue = 'feature-archived';
+                item.iconPath = new vscode.ThemeIcon('folder-library');
+                const settings = await readFeatureSettings(workspaceFileSystem, node.uri.fsPath);
+                item.description = settings.abandoned ? 'abandoned' : undefined;
+                item.tooltip = settings.abandoned?.reason || undefined;
+                return item;
+            }
+            case 'archivedFile': {
+                const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.None);
+                item.id = `archived:${node.uri.toString()}`;
+                item.command = { title: 'Open', command: 'vscode.open', arguments: [node.uri] };
+                return item;
+            }
+        }
+    }
+
+    public refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private async describeFeature(feature: string): Promise<string> {
+        const files = await findSpecFiles(feature);
+        const layout = getFeatureLayout(feature);
+        // Name the workflow when the folder offers a choice
+        const workflow = getWorkflowDefinitions(splitFeatureKey(feature).folder ?? vscode.workspace.workspaceFolders?.[0]).workflows.length > 1
+            ? `${layout.workflow} · `
+            : '';
+        const missingPhase = layout.phases.find(({ id }) => !findPhaseFile(files, id, layout));
+        if (missingPhase) {
+            return `${workflow}${missingPhase.id} pending`;
+        }
+
+        const tasksFilePath = findPhaseFile(files, 'tasks', layout);
+        const tasks = tasksFilePath ? await parseTasksFromFile(tasksFilePath) : [];
+        const completedCount = tasks.filter(task => task.completed).length;
+        return workflow + (completedCount === tasks.length ? 'complete' : `implementing ${completedCount}/${tasks.length}`);
+    }
+}
+
+// ===== SPEC DASHBOARD =====
+
+async function getFeatureSummary(feature: string): Promise<FeatureSummary> {
+    const model = await loadWorkspaceFeature(feature);
+    const layout = getFeatureLayout(feature);
+    const phases = layout.phases.map(({ id }) => {
+        const state = model?.phases.find(candidate => candidate.phase === id);
+        return {
+            phase: id,
+            path: state?.document?.path ?? null,
+            approval: state?.approval ?? null
+        };
+    });
+    const tasks = model?.tasks ?? [];
+    const completedTasks = tasks.filter(task => task.completed).length;
+    const files = model?.documents.map(document => document.path) ?? [];
+
+    const activeTask = getActiveTask(feature);
+    const implementing = (activeTask && tasks.find(task => getTaskLabel(task) === activeTask.task)) ?? null;
+
+    // Last activity is the latest journal event or document change
+    const journal = await readTaskJournal(feature);
+    const timestamps = journal.map(event => Date.parse(event.timestamp));
+    for (const file of files) {
+        try {
+            timestamps.push((await vscode.workspace.fs.stat(vscode.Uri.file(file))).mtime);
+        } catch {
+            // Deleted while the summary was being built
+        }
+    }
+
+    return {
+        feature,
+        phases,
+        currentPhase: model ? getCurrentPhase(model) : layout.phases[0].id,
+        totalTasks: tasks.length,
+        completedTasks,
+        implementingTask: implementing ? `${getTaskLabel(implementing)} ${implementing.text.replace(/^\d+(?:\.\d+)*\.?\s+/, '')}` : null,
+        lastActivity: timestamps.length > 0 ? Math.max(...timestamps) : null
+    };
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function createNonce(): string {
+    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+    }
+    return nonce;
+}
+
+/**
+ * Single-screen overview of every feature: phase, approvals, task progress, implementing task and last activity
+ */
+class SpecDashboardPanel {
+    public static readonly viewType = 'codep.dashboard';
+    private static current: SpecDashboardPanel | undefined;
+
+    private readonly disposables: vscode.Disposable[] = [];
+
+    public static show(): void {
+        if (SpecDashboardPanel.current) {
+            SpecDashboardPanel.current.panel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(SpecDashboardPanel.viewType, 'Code:P Dashboard', vscode.ViewColumn.One, {
+            enableScripts: true,
+            localResourceRoots: []
+        });
+        SpecDashboardPanel.current = new SpecDashboardPanel(panel);
+    }
+
+    private constructor(private readonly panel: vscode.WebviewPanel) {
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message), null, this.disposables);
+        this.panel.onDidChangeViewState(() => {
+            if (this.panel.visible) {
+                this.update();
+            }
+        }, null, this.disposables);
+        // Re-render whenever the spec explorer picks up a change
+        specExplorerProvider.onDidChangeTreeData(() => this.update(), null, this.disposables);
+        this.update();
+    }
+
+    private async update(): Promise<void> {
+        try {
+            const features = (await findSpecFeatures()).sort();
+            const summaries = await Promise.all(features.map(getFeatureSummary));
+            this.panel.webview.html = this.render(summaries);
+        } catch (error) {
+            outputChannel.appendLine(`Error updating dashboard: ${error}`);
+        }
+    }
+
+    private async handleMessage(message: { command: string; feature?: string; path?: string }): Promise<void> {
+        try {
+            switch (message.command) {
+                case 'open':
+                    if (message.path && isSpecFile(message.path)) {
+                        await vscode.window.showTextDocument(vscode.Uri.file(message.path), { viewColumn: vscode.ViewColumn.Beside });
+                    }
+                    break;
+                case 'continue':
+                    if (message.feature) {
+                        await resumeFeatureWorkflow(message.feature);
+                    }
+                    break;
+                case 'report':
+                    if (message.feature) {
+                        const tasksPath = await findTasksFile(message.feature);
+                        const tasks = tasksPath ? await parseTasksFromFile(tasksPath) : [];
+                        const document = await vscode.workspace.openTextDocument({
+                            content: formatTaskReport(message.feature, tasks, await readTaskJournal(message.feature)),
+                            language: 'markdown'
+                        });
+                        await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+                    }
+                    break;
+                case 'refresh':
+                    await this.update();
+                    break;
+            }
+        } catch (error) {
+            const errorMessage = `Error handling dashboard action: ${error}`;
+            outputChannel.appendLine(errorMessage);
+            vscode.window.showErrorMessage(errorMessage);
+        }
+    }
+
+    private render(summaries: FeatureSummary[]): string {
+        const nonce = createNonce();
+        const approvalBadge = ({ phase, path, approval }: FeatureSummary['phases'][number]): string => {
+            const name = escapeHtml(phase);
+            if (!path || !approval) {
+                return `<span class="badge missing" title="${name}: not written">${name}</span>`;
+            }
+            const state = approval.status === 'approved' && approval.modifiedSinceApproval ? 'modified' : approval.status;
+            const title = approval.status === 'approved'
+                ? `${phase}: approved by ${approval.approver ?? 'unknown'}${approval.modifiedSinceApproval ? ', modified since' : ''}`
+                : `${phase}: ${approval.status}`;
+            return `<a class="badge ${state}" data-command="open" data-path="${escapeHtml(path)}" title="${escapeHtml(title)}">${name}</a>`;
+        };
+
+        const rows = summaries.map(summary => {
+            const percent = summary.totalTasks > 0 ? Math.round(summary.completedTasks / summary.totalTasks * 100) : 0;
+            const feature = escapeHtml(summary.feature);
+            return `<tr>
+                <td class="feature">${feature}</td>
+                <td>${escapeHtml(summary.currentPhase)}</td>
+                <td>${summary.phases.map(approvalBadge).join(' ')}</td>
+                <td>
+                    <div class="progress"><div style="width: ${percent}%"></div></div>
+                    ${summary.completedTasks}/${summary.totalTasks} (${percent}%)
+                </td>
+                <td>${summary.implementingTask ? escapeHtml(summary.implementingTask) : '&mdash;'}</td>
+                <td>${summary.lastActivity ? new Date(summary.lastActivity).toLocaleString() : '&mdash;'}</td>
+                <td class="actions">
+                    ${summary.currentPhase !== 'complete' && summary.currentPhase !== 'abandoned' ? `<button data-command="continue" data-feature="${feature}">Continue</button>` : ''}
+                    <button class="secondary" data-command="report" data-feature="${feature}">Report</button>
+                </td>
+            </tr>`;
+        }).join('\n');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${this.panel.webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Code:P Dashboard</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+        table { border-collapse: collapse; width: 100%; }
+        th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid var(--vscode-panel-border); vertical-align: middle; }
+        th { font-weight: 600; color: var(--vscode-descriptionForeground); }
+        .feature { font-weight: 600; }
+        .badge { display: inline-block; padding: 1px 6px; border-radius: 8px; font-size: 0.85em; cursor: pointer; text-decoration: none; color: var(--vscode-badge-foreground); background: var(--vscode-badge-background); }
+        .badge.approved { background: var(--vscode-testing-iconPassed); color: var(--vscode-editor-background); }
+        .badge.modified, .badge.changes-requested { background: var(--vscode-editorWarning-foreground); color: var(--vscode-editor-background); }
+        .badge.missing { cursor: default; opacity: 0.5; }
+        .progress { width: 120px; height: 6px; background: var(--vscode-input-background); border: 1px solid var(--vscode-panel-border); }
+        .progress > div { height: 100%; background: var(--vscode-progressBar-background); }
+        .actions { white-space: nowrap; }
+        button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+        button.secondary { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); }
+    </style>
+</head>
+<body>
+    <h1>Specifications <button class="secondary" data-command="refresh">Refresh</button></h1>
+    ${summaries.length === 0 ? '<p>No specifications exist.</p>' : `<table>
+        <thead>
+            <tr><th>Feature</th><th>Phase</th><th>Approvals</th><th>Tasks</th><th>Implementing</th><th>Last Activity</th><th></th></tr>
+        </thead>
+        <tbody>
+            ${rows}
+        </tbody>
+    </table>`}
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.addEventListener('click', event => {
+            const target = event.target.closest('[data-command]');
+            if (target) {
+                vscode.postMessage({ command: target.dataset.command, feature: target.dataset.feature, path: target.dataset.path });
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    private dispose(): void {
+        SpecDashboardPanel.current = undefined;
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+    }
+}
+
+// ===== FILE UTILITIES =====
+
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function directoryExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        const stat = await vscode.workspace.fs.stat(uri);
+        return (stat.type & vscode.FileType.Directory) !== 0;
+    } catch {
+        return false;
+    }
+}
+
+async function ensureDirectory(fileUri: vscode.Uri): Promise<void> {
+    const parentUri = vscode.Uri.joinPath(fileUri, '..');
+    if (!(await directoryExists(parentUri))) {
+        await vscode.workspace.fs.createDirectory(parentUri);
+    }
+}
+
+function getWorkspaceFolders(): readonly vscode.WorkspaceFolder[] {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    if (workspaceFolders.length === 0) {
+        throw new Error('No workspace folder found');
+    }
+    return workspaceFolders;
+}
+
+function isMultiRootWorkspace(): boolean {
+    return (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+}
+
+/**
+ * The only workspace folder, or the one picked by the user in multi-root workspaces
+ */
+async function pickWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const workspaceFolders = getWorkspaceFolders();
+    if (workspaceFolders.length === 1) {
+        return workspaceFolders[0];
+    }
+    return vscode.window.showWorkspaceFolderPick({ placeHolder });
+}
+
+// ===== BUNDLED FILES MANAGEMENT =====
+
+async function getBundledFiles(context: vscode.ExtensionContext): Promise<BundledFile[]> {
+    const bundledFiles: BundledFile[] = [];
+    const githubUri = vscode.Uri.joinPath(context.extensionUri, '.github');
+
+    try {
+        // Get copilot-instructions.md
+        const copilotInstructionsUri = vscode.Uri.joinPath(githubUri, 'copilot-instructions.md');
+        if (await fileExists(copilotInstructionsUri)) {
+            const content = await vscode.workspace.fs.readFile(copilotInstructionsUri);
+            bundledFiles.push({
+                absolutePath: copilotInstructionsUri.fsPath,
+                relativePath: '.github/copilot-instructions.md',
+                content: Buffer.from(content).toString('utf8')
+            });
+        }
+
+        // Get files from configuration folders
+        const configFolders = ['hooks', 'instructions', 'steering', 'prompts'];
+        
+        for (const folder of configFolders) {
+            const folderUri = vscode.Uri.joinPath(githubUri, folder);
+            if (await directoryExists(folderUri)) {
+                const files = await vscode.workspace.fs.readDirectory(folderUri);
+                for (const [fileName, type] of files) {
+                    if (type === vscode.FileType.File && fileName.endsWith('.md')) {
+                        const fileUri = vscode.Uri.joinPath(folderUri, fileName);
+                        const content = await vscode.workspace.fs.readFile(fileUri);
+                        bundledFiles.push({
+                            absolutePath: fileUri.fsPath,
+                            relativePath: `.github/${folder}/${fileName}`,
+                            content: Buffer.from(content).toString('utf8')
+                        });
+                    }
+                }
+            }
+        }
+
+        outputChannel.appendLine(`Found ${bundledFiles.length} bundled configuration files`);
+        return bundledFiles;
+    } catch (error) {
+        outputChannel.appendLine(`Error reading bundled files: ${error}`);
+        return [];
+    }
+}
 
-        // Get files from configuration folders
-        const configFolders = ['hooks', 'instructions', 'steering', 'prompts'];
+async function getFileModificationTime(uri: vscode.Uri): Promise<number> {
+    try {
+        const stat = await vscode.workspace.fs.stat(uri);
+        return stat.mtime;
+    } catch {
+        return 0;
+    }
+}
+
+async function hasConfigurationFiles(folder: vscode.WorkspaceFolder): Promise<boolean> {
+    try {
+        const githubUri = vscode.Uri.joinPath(folder.uri, '.github');
         
+        if (!(await directoryExists(githubUri))) {
+            return false;
+        }
+
+        // Check for copilot-instructions.md
+        const copilotInstructionsUri = vscode.Uri.joinPath(githubUri, 'copilot-instructions.md');
+        if (await fileExists(copilotInstructionsUri)) {
+            return true;
+        }
+
+        // Check for configuration folders
+        const configFolders = ['hooks', 'instructions', 'steering', 'prompts'];
         for (const folder of configFolders) {
             const folderUri = vscode.Uri.joinPath(githubUri, folder);
             if (await directoryExists(folderUri)) {
                 const files = await vscode.workspace.fs.readDirectory(folderUri);
-                for (const [fileName, type] of files) {
-                    if (type === vscode.FileType.File && fileName.endsWith('.md')) {
-                        const fileUri = vscode.Uri.joinPath(folderUri, fileName);
-                        const content = await vscode.workspace.fs.readFile(fileUri);
-                        bundledFiles.push({
-                            absolutePath: fileUri.fsPath,
-                            relativePath: `.github/${folder}/${fileName}`,
-                            content: Buffer.from(content).toString('utf8')
-                        });
+                if (files.length > 0) {
+                    return true;
+                }
+            }
+        }
+
+        return false;
+    } catch {
+        return false;
+    }
+}
+
+async function getConfiguredFolders(): Promise<vscode.WorkspaceFolder[]> {
+    const configuredFolders: vscode.WorkspaceFolder[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        if (await hasConfigurationFiles(folder)) {
+            configuredFolders.push(folder);
+        }
+    }
+    return configuredFolders;
+}
+
+async function checkForConfigurationUpdates(context: vscode.ExtensionContext, folder: vscode.WorkspaceFolder): Promise<boolean> {
+    try {
+        const workspaceRoot = folder.uri;
+        const bundledFiles = await getBundledFiles(context);
+        
+        if (bundledFiles.length === 0) {
+            return false;
+        }
+
+        let hasUpdates = false;
+        
+        for (const bundledFile of bundledFiles) {
+            const workspaceUri = vscode.Uri.joinPath(workspaceRoot, bundledFile.relativePath);
+            
+            if (await fileExists(workspaceUri)) {
+                // Compare content only - bundled files don't have meaningful modification times
+                const workspaceContent = await vscode.workspace.fs.readFile(workspaceUri);
+                const workspaceContentStr = Buffer.from(workspaceContent).toString('utf8');
+                const baseline = getConfigBaseline(folder, bundledFile.relativePath);
+                const plan = planConfigUpdate(baseline, bundledFile.content, workspaceContentStr);
+                
+                // Local customisations of an unchanged bundle file are not updates, nor are files without a
+                // baseline to tell upstream changes from local ones
+                if (plan === 'update' || plan === 'merge') {
+                    outputChannel.appendLine(`Content differs (${plan}): ${bundledFile.relativePath}`);
+                    hasUpdates = true;
+                }
+            } else {
+                // File doesn't exist in workspace, so it's an update
+                outputChannel.appendLine(`Missing in workspace: ${bundledFile.relativePath}`);
+                hasUpdates = true;
+            }
+        }
+
+        return hasUpdates;
+    } catch (error) {
+        outputChannel.appendLine(`Error checking for configuration updates: ${error}`);
+        return false;
+    }
+}
+
+async function offerConfigurationRefresh(context: vscode.ExtensionContext, folders: vscode.WorkspaceFolder[]): Promise<void> {
+    const outdatedFolders: vscode.WorkspaceFolder[] = [];
+    for (const folder of folders) {
+        if (await checkForConfigurationUpdates(context, folder)) {
+            outdatedFolders.push(folder);
+        }
+    }
+    
+    if (outdatedFolders.length > 0) {
+        outputChannel.appendLine('Configuration updates available, showing prompt to user');
+        
+        const target = isMultiRootWorkspace() ? ` in ${outdatedFolders.map(folder => folder.name).join(', ')}` : '';
+        const selection = await vscode.window.showInformationMessage(
+            `Newer configuration files are available in the extension. Would you like to refresh your configuration${target}?`,
+            'Refresh Configuration',
+            'Not Now'
+        );
+
+        if (selection === 'Refresh Configuration') {
+            for (const folder of outdatedFolders) {
+                await injectConfig(context, folder);
+            }
+        }
+    } else {
+        outputChannel.appendLine('No configuration updates needed');
+    }
+}
+
+// ===== CONFIGURATION MERGE =====
+
+// Bundled content last installed per workspace folder, the common ancestor of three-way merges
+const CONFIG_BASELINES_KEY = 'codep.configBaselines';
+
+function getConfigBaseline(folder: vscode.WorkspaceFolder, relativePath: string): string | undefined {
+    const baselines = workspaceState?.get<Record<string, Record<string, string>>>(CONFIG_BASELINES_KEY, {}) ?? {};
+    return baselines[folder.uri.toString()]?.[relativePath];
+}
+
+async function setConfigBaselines(folder: vscode.WorkspaceFolder, files: BundledFile[]): Promise<void> {
+    const baselines = workspaceState?.get<Record<string, Record<string, string>>>(CONFIG_BASELINES_KEY, {}) ?? {};
+    baselines[folder.uri.toString()] = Object.fromEntries(files.map(file => [file.relativePath, file.content]));
+    await workspaceState?.update(CONFIG_BASELINES_KEY, baselines);
+}
+
+async function showDiffEditor(bundledFile: BundledFile, workspaceUri: vscode.Uri, index: number): Promise<void> {
+    
+    const bundledUri = vscode.Uri.parse(`${bundledFile.absolutePath}`);
+
+    await vscode.commands.executeCommand('vscode.diff',
+        bundledUri,
+        workspaceUri,
+        `${bundledFile.relativePath}: Extension Bundle ↔ Workspace`,
+        {
+            preview: false
+        }
+    );
+}
+
+// ===== WORKFLOW DEFINITIONS =====
+
+// Workflow definitions by workspace folder URI and the workflow selected by each feature, kept by refreshWorkflows
+const workflowDefinitions = new Map<string, SpecWorkflowDefinitions>();
+const featureWorkflows = new Map<string, string>();
+
+function getWorkflowDefinitions(folder?: vscode.WorkspaceFolder | null): SpecWorkflowDefinitions {
+    return (folder ? workflowDefinitions.get(folder.uri.toString()) : undefined) ??
+        { defaultWorkflow: 'default', workflows: [getDefaultWorkflow(getSpecLayout(folder))], errors: [] };
+}
+
+/**
+ * Re-read the workflow definition file of every workspace folder and the feature.yml of every feature
+ */
+async function refreshWorkflows(): Promise<void> {
+    const definitionsByFolder = new Map<string, SpecWorkflowDefinitions>();
+    const workflowsByFeature = new Map<string, string>();
+
+    for (const folder of getWorkspaceFolders()) {
+        const definitions = await readWorkflowDefinitions(workspaceFileSystem, folder.uri.fsPath, getSpecLayout(folder));
+        definitionsByFolder.set(folder.uri.toString(), definitions);
+        if (definitions.errors.length > 0) {
+            const definitionUri = vscode.Uri.joinPath(folder.uri, ...WORKFLOW_DEFINITION_FILE.split('/'));
+            definitions.errors.forEach(error => outputChannel.appendLine(`Error in ${definitionUri.fsPath}: ${error}`));
+            vscode.window.showWarningMessage(`${WORKFLOW_DEFINITION_FILE}: ${definitions.errors[0]}`, 'Open File').then(selection => {
+                if (selection === 'Open File') {
+                    vscode.commands.executeCommand('vscode.open', definitionUri);
+                }
+            });
+        }
+
+        const specsUri = getSpecsUri(folder);
+        if (!(await directoryExists(specsUri))) {
+            continue;
+        }
+        for (const [name, type] of await vscode.workspace.fs.readDirectory(specsUri)) {
+            if (type !== vscode.FileType.Directory || name === ARCHIVE_DIRECTORY) {
+                continue;
+            }
+            const workflow = await readFeatureWorkflow(workspaceFileSystem, vscode.Uri.joinPath(specsUri, name).fsPath);
+            if (!workflow) {
+                continue;
+            }
+            if (!definitions.workflows.some(candidate => candidate.name === workflow)) {
+                outputChannel.appendLine(`Feature ${name} selects unknown workflow "${workflow}", using "${definitions.defaultWorkflow}"`);
+            }
+            workflowsByFeature.set(getFeatureKey(folder, name), workflow);
+        }
+    }
+
+    workflowDefinitions.clear();
+    definitionsByFolder.forEach((definitions, folder) => workflowDefinitions.set(folder, definitions));
+    featureWorkflows.clear();
+    workflowsByFeature.forEach((workflow, feature) => featureWorkflows.set(feature, workflow));
+}
+
+/**
+ * Ask for the workflow of a new feature when the folder defines more than one
+ */
+async function pickWorkflow(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+    const definitions = getWorkflowDefinitions(folder);
+    if (definitions.workflows.length === 1) {
+        return definitions.workflows[0].name;
+    }
+
+    const items = definitions.workflows.map(workflow => ({
+        label: workflow.name,
+        description: workflow.name === definitions.defaultWorkflow ? 'default' : undefined,
+        detail: [workflow.description, workflow.phases.map(phase => phase.id).join(' → ')].filter(Boolean).join(' · ')
+    }));
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Select the workflow of the new specification' });
+    return selected?.label;
+}
+
+// ===== SPEC UTILITIES =====
+
+/**
+ * Spec location, phase documents and prompts configured for a workspace folder
+ */
+function getSpecLayout(folder?: vscode.WorkspaceFolder | null): SpecLayout {
+    const configuration = vscode.workspace.getConfiguration('codep', folder?.uri);
+    return resolveSpecLayout({
+        specsRoot: configuration.get('specsRoot'),
+        phases: configuration.get('phases'),
+        taskPrompt: configuration.get('taskPrompt')
+    });
+}
+
+/**
+ * Layout of a feature following the workflow it selected in its feature.yml
+ */
+function getFeatureLayout(feature: string): SpecLayout {
+    const folder = splitFeatureKey(feature).folder ?? vscode.workspace.workspaceFolders?.[0];
+    return getWorkflowLayout(getSpecLayout(folder), getWorkflowDefinitions(folder), featureWorkflows.get(feature));
+}
+
+function getSpecsUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+    return vscode.Uri.joinPath(folder.uri, ...getSpecLayout(folder).specsRoot.split('/'));
+}
+
+/**
+ * Where a file sits below the configured specs root: its feature directory and the path inside it
+ */
+function getSpecLocation(filePath: string): { folder: vscode.WorkspaceFolder | undefined; layout: SpecLayout; name: string; segments: string[] } | null {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    const specsLayout = getSpecLayout(folder);
+    const normalizedPath = filePath.replace(/\\/g, '/');
+    const marker = `/${specsLayout.specsRoot}/`;
+
+    let start: number;
+    if (folder) {
+        const folderPath = folder.uri.fsPath.replace(/\\/g, '/').replace(/\/+$/, '');
+        start = normalizedPath.startsWith(folderPath + marker) ? folderPath.length : -1;
+    } else {
+        start = normalizedPath.lastIndexOf(marker);
+    }
+    if (start < 0) {
+        return null;
+    }
+
+    const [name, ...segments] = normalizedPath.slice(start + marker.length).split('/');
+    if (!name || name === ARCHIVE_DIRECTORY || segments.length === 0) {
+        return null;
+    }
+    const layout = folder ? getFeatureLayout(getFeatureKey(folder, name)) : specsLayout;
+    return { folder, layout, name, segments };
+}
+
+/**
+ * Configured phase of a spec document, e.g. { id: 'requirements', file: '01-requirements.md', prompt: '/spec01' }
+ */
+function getPhaseDefinition(filePath: string): SpecPhaseDefinition | undefined {
+    const layout = getSpecLocation(filePath)?.layout ?? getSpecLayout(vscode.workspace.workspaceFolders?.[0]);
+    const phase = getSpecPhase(filePath, layout);
+    return layout.phases.find(candidate => candidate.id === phase);
+}
+
+function getDocumentPhase(filePath: string): string | null {
+    return getSpecPhase(filePath, getSpecLocation(filePath)?.layout ?? getSpecLayout(vscode.workspace.workspaceFolders?.[0]));
+}
+
+function isSpecFile(filePath: string): boolean {
+    const location = getSpecLocation(filePath);
+    return !!location && location.segments.length === 1 && location.segments[0].endsWith('.md') &&
+        getSpecPhase(location.segments[0], location.layout) !== null;
+}
+
+function isTasksDocument(filePath: string): boolean {
+    return isSpecFile(filePath) && getDocumentPhase(filePath) === 'tasks';
+}
+
+/**
+ * Context key for editor/title menus, which cannot evaluate the configured spec location themselves
+ */
+function updateSpecDocumentContext(editor: vscode.TextEditor | undefined): void {
+    vscode.commands.executeCommand('setContext', 'codep.isSpecDocument', !!editor && isSpecFile(editor.document.uri.fsPath));
+}
+
+function getSpecFeature(filePath: string): string | null {
+    const location = getSpecLocation(filePath);
+    if (!location) {
+        return null;
+    }
+    return location.folder ? getFeatureKey(location.folder, location.name) : location.name;
+}
+
+/**
+ * Features are identified by name, qualified as "<folder>/<name>" in multi-root workspaces
+ */
+function getFeatureKey(folder: vscode.WorkspaceFolder, name: string): string {
+    return isMultiRootWorkspace() ? `${folder.name}/${name}` : name;
+}
+
+function splitFeatureKey(feature: string): { folder: vscode.WorkspaceFolder | null; name: string } {
+    const folder = (vscode.workspace.workspaceFolders ?? []).find(candidate => feature.startsWith(`${candidate.name}/`));
+    return folder
+        ? { folder, name: feature.slice(folder.name.length + 1) }
+        : { folder: null, name: feature };
+}
+
+/**
+ * The key of an existing feature named either by key or, in multi-root workspaces, by its bare name
+ */
+async function resolveFeatureKey(feature: string): Promise<string> {
+    const features = await findSpecFeatures().catch(() => [] as string[]);
+    if (features.includes(feature)) {
+        return feature;
+    }
+    return features.find(candidate => splitFeatureKey(candidate).name === feature) ?? feature;
+}
+
+/**
+ * Locate a feature directory. Unqualified names are looked up in every workspace folder,
+ * so names typed in chat or saved by a single-root session keep resolving
+ */
+async function resolveFeatureUri(feature: string): Promise<vscode.Uri | null> {
+    const { folder, name } = splitFeatureKey(feature);
+    if (folder) {
+        return vscode.Uri.joinPath(getSpecsUri(folder), name);
+    }
+
+    for (const candidate of vscode.workspace.workspaceFolders ?? []) {
+        const featureUri = vscode.Uri.joinPath(getSpecsUri(candidate), name);
+        if (await directoryExists(featureUri)) {
+            return featureUri;
+        }
+    }
+    return null;
+}
+
+async function findSpecFeatures(): Promise<string[]> {
+    return specModel.getFeatureKeys();
+}
+
+async function findSpecFiles(feature: string): Promise<string[]> {
+    const model = await loadWorkspaceFeature(feature);
+    return model ? model.documents.map(document => vscode.Uri.file(document.path).fsPath) : [];
+}
+
+async function findPhaseDocument(feature: string, phase: string): Promise<string | undefined> {
+    return findPhaseFile(await findSpecFiles(feature), phase, getFeatureLayout(feature));
+}
+
+async function findTasksFile(feature: string): Promise<string | undefined> {
+    return findPhaseDocument(feature, 'tasks');
+}
+
+/**
+ * The spec core's file access, backed by vscode.workspace.fs
+ */
+const workspaceFileSystem: SpecFileSystem = {
+    readFile: async path => Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(path))).toString('utf8'),
+    readDirectory: async path => (await vscode.workspace.fs.readDirectory(vscode.Uri.file(path)))
+        .map(([name, type]) => ({ name, isDirectory: (type & vscode.FileType.Directory) !== 0 })),
+    exists: path => fileExists(vscode.Uri.file(path))
+};
+
+async function loadWorkspaceFeature(feature: string): Promise<SpecFeature | null> {
+    return specModel.getFeature(feature);
+}
+
+/**
+ * A feature still to be worked on: neither complete nor abandoned
+ */
+async function isSpecInProgress(feature: string): Promise<boolean> {
+    try {
+        const model = await loadWorkspaceFeature(feature);
+        return model === null || (!model.abandoned && !isFeatureComplete(model));
+    } catch (error) {
+        outputChannel.appendLine(`Error reading specification ${feature}: ${error}`);
+        // If we can't read the documents, assume it's incomplete
+        return true;
+    }
+}
+
+// ===== SPEC MODEL =====
+
+// Quiet period after the last change on disk before views are refreshed
+const SPEC_MODEL_DEBOUNCE_MS = 300;
+
+/**
+ * Parsed features of every workspace folder, kept current by a file-system watcher over the specs
+ * directories. Changed features are reloaded when next read, and listeners are notified once a
+ * burst of changes has settled, with the keys of the features that changed
+ */
+class SpecModel implements vscode.Disposable {
+    private _onDidChange: vscode.EventEmitter<string[]> = new vscode.EventEmitter<string[]>();
+    public readonly onDidChange: vscode.Event<string[]> = this._onDidChange.event;
+
+    private features = new Map<string, SpecFeature>();
+    private scanning: Promise<void> = Promise.resolve();
+    private scanGeneration = 0;
+    private rescan = true;
+    private stale = new Set<string>();
+    private reloading = new Map<string, Promise<void>>();
+    private changed = new Set<string>();
+    private changedAll = false;
+    private timer: ReturnType<typeof setTimeout> | undefined;
+    private watchers: vscode.Disposable[] = [];
+
+    public async getFeatureKeys(): Promise<string[]> {
+        await this.ensureScanned();
+        return [...this.features.keys()];
+    }
+
+    /**
+     * A feature by key or, in multi-root workspaces, by its bare name
+     */
+    public async getFeature(feature: string): Promise<SpecFeature | null> {
+        await this.ensureScanned();
+        const key = this.features.has(feature) || this.stale.has(feature)
+            ? feature
+            : [...this.features.keys()].find(candidate => splitFeatureKey(candidate).name === feature);
+        if (!key) {
+            return null;
+        }
+
+        if (this.stale.delete(key)) {
+            this.reloading.set(key, this.reload(key).finally(() => this.reloading.delete(key)));
+        }
+        await this.reloading.get(key);
+        return this.features.get(key) ?? null;
+    }
+
+    /**
+     * Mark a feature, or with no feature every folder's specs, as changed on disk
+     */
+    public invalidate(feature?: string): void {
+        if (feature) {
+            this.stale.add(feature);
+            this.changed.add(feature);
+        } else {
+            this.rescan = true;
+            this.changedAll = true;
+        }
+
+        clearTimeout(this.timer);
+        this.timer = setTimeout(() => this.flush(), SPEC_MODEL_DEBOUNCE_MS);
+    }
+
+    /**
+     * Watch the specs directory of every workspace folder; called again when the folders or the specs root change
+     */
+    public watch(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = getWorkspaceFolders().flatMap(folder => {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(getSpecsUri(folder), '**'));
+            watcher.onDidCreate(uri => this.onFileChange(uri));
+            watcher.onDidChange(uri => this.onFileChange(uri));
+            watcher.onDidDelete(uri => this.onFileChange(uri));
+
+            // Workflow definitions change the phases of every feature in the folder
+            const workflowWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, WORKFLOW_DEFINITION_FILE));
+            workflowWatcher.onDidCreate(() => this.onWorkflowChange());
+            workflowWatcher.onDidChange(() => this.onWorkflowChange());
+            workflowWatcher.onDidDelete(() => this.onWorkflowChange());
+            return [watcher, workflowWatcher];
+        });
+        this.invalidate();
+    }
+
+    public dispose(): void {
+        clearTimeout(this.timer);
+        this.watchers.forEach(watcher => watcher.dispose());
+        this._onDidChange.dispose();
+    }
+
+    private onFileChange(uri: vscode.Uri): void {
+        const location = getSpecLocation(uri.fsPath);
+        if (!location) {
+            // A feature directory itself was created, renamed or deleted
+            this.invalidate();
+        } else if (location.segments.length === 1 && location.segments[0] === FEATURE_SETTINGS_FILE) {
+            // The feature's workflow or abandoned state changed: its layout is read again first
+            const feature = location.folder ? getFeatureKey(location.folder, location.name) : location.name;
+            refreshWorkflows().then(() => this.invalidate(feature), error => outputChannel.appendLine(`Error reading workflows: ${error}`));
+        } else if (location.segments.length === 1 && location.segments[0].endsWith('.md')) {
+            this.invalidate(location.folder ? getFeatureKey(location.folder, location.name) : location.name);
+        }
+    }
+
+    private async onWorkflowChange(): Promise<void> {
+        try {
+            await refreshWorkflows();
+        } catch (error) {
+            outputChannel.appendLine(`Error reading workflows: ${error}`);
+        }
+        this.invalidate();
+    }
+
+    private async ensureScanned(): Promise<void> {
+        if (this.rescan) {
+            this.rescan = false;
+            this.stale.clear();
+            this.scanning = this.scan();
+        }
+        // Wait for the latest scan, including one started while an earlier one was awaited
+        let scanning: Promise<void>;
+        do {
+            scanning = this.scanning;
+            await scanning;
+        } while (scanning !== this.scanning);
+    }
+
+    private async scan(): Promise<void> {
+        // A scan started later supersedes this one, whichever finishes first
+        const generation = ++this.scanGeneration;
+        const features = new Map<string, SpecFeature>();
+        for (const folder of getWorkspaceFolders()) {
+            const specsUri = getSpecsUri(folder);
+            try {
+                if (!(await directoryExists(specsUri))) {
+                    continue;
+                }
+                for (const [name, type] of await vscode.workspace.fs.readDirectory(specsUri)) {
+                    if (type === vscode.FileType.Directory && name !== ARCHIVE_DIRECTORY) {
+                        const key = getFeatureKey(folder, name);
+                        features.set(key, await loadFeature(workspaceFileSystem, vscode.Uri.joinPath(specsUri, name).fsPath, key, getFeatureLayout(key)));
                     }
                 }
+            } catch (error) {
+                outputChannel.appendLine(`Error reading specifications in ${specsUri.fsPath}: ${error}`);
+            }
+        }
+        if (generation === this.scanGeneration) {
+            this.features = features;
+        }
+    }
+
+    private async reload(feature: string): Promise<void> {
+        try {
+            const featureUri = await resolveFeatureUri(feature);
+            if (featureUri && await directoryExists(featureUri)) {
+                this.features.set(feature, await loadFeature(workspaceFileSystem, featureUri.fsPath, feature, getFeatureLayout(feature)));
+            } else {
+                this.features.delete(feature);
             }
+        } catch (error) {
+            outputChannel.appendLine(`Error reading specification ${feature}: ${error}`);
         }
+    }
 
-        outputChannel.appendLine(`Found ${bundledFiles.length} bundled configuration files`);
-        return bundledFiles;
+    private async flush(): Promise<void> {
+        const changedAll = this.changedAll;
+        const changed = [...this.changed];
+        this.changedAll = false;
+        this.changed.clear();
+
+        await this.ensureScanned();
+        await Promise.all([...this.stale].map(feature => this.getFeature(feature)));
+        this._onDidChange.fire(changedAll ? [...this.features.keys()] : changed);
+    }
+}
+
+// ===== PHASE APPROVAL =====
+
+async function getPhaseApproval(filePath: string): Promise<PhaseApproval> {
+    try {
+        const content = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+        return getApprovalFromContent(Buffer.from(content).toString('utf8'));
     } catch (error) {
-        outputChannel.appendLine(`Error reading bundled files: ${error}`);
-        return [];
+        outputChannel.appendLine(`Error reading approval of ${filePath}: ${error}`);
+        return { status: 'pending', approver: null, approvedAt: null, reviewer: null, comment: null, modifiedSinceApproval: false };
     }
 }
 
-async function compareFileContents(bundledContent: string, workspaceContent: string): Promise<boolean> {
-    return bundledContent.trim() === workspaceContent.trim();
+/**
+ * Rewrite the front-matter block of a phase document, leaving its body untouched
+ */
+async function updatePhaseFrontMatter(filePath: string, update: (data: Record<string, string>, content: string) => Record<string, string>): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    const text = document.getText();
+    const { content, data } = parseFrontMatter(text);
+    const header = serializeFrontMatter(update({ ...data }, content), '');
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(text.length - content.length)), header);
+    await vscode.workspace.applyEdit(edit);
+    await document.save();
+    specModel.invalidate(getSpecFeature(filePath) ?? undefined);
 }
 
-async function getFileModificationTime(uri: vscode.Uri): Promise<number> {
-    try {
-        const stat = await vscode.workspace.fs.stat(uri);
-        return stat.mtime;
-    } catch {
-        return 0;
+/**
+ * The phase document targeted by an approval command: an explicit tree node or URI,
+ * the active spec editor, or one picked by the user
+ */
+async function pickPhaseDocument(target: SpecTreeNode | vscode.Uri | undefined, placeHolder: string): Promise<string | undefined> {
+    if (target instanceof vscode.Uri) {
+        return target.fsPath;
+    }
+    if (target && target.kind === 'phase' && target.path) {
+        return target.path;
+    }
+
+    const activeEditor = vscode.window.activeTextEditor;
+    if (activeEditor && isSpecFile(activeEditor.document.uri.fsPath) && getPhaseDefinition(activeEditor.document.uri.fsPath)) {
+        return activeEditor.document.uri.fsPath;
     }
+
+    const feature = await pickSpecFeature('Select a specification feature to review');
+    if (!feature) {
+        return undefined;
+    }
+
+    const files = await findSpecFiles(feature);
+    const layout = getFeatureLayout(feature);
+    const items = layout.phases
+        .map(({ id }) => findPhaseFile(files, id, layout))
+        .filter((file): file is string => file !== undefined)
+        .map(file => ({ label: getDocumentPhase(file) || file, description: file.split(/[\/\\]/).pop(), path: file }));
+
+    const selected = await vscode.window.showQuickPick(items, { placeHolder });
+    return selected?.path;
+}
+
+async function askReviewer(prompt: string): Promise<string | undefined> {
+    const reviewer = await vscode.window.showInputBox({
+        prompt,
+        value: workspaceState?.get<string>('codep.lastReviewer', ''),
+        validateInput: value => value.trim() ? null : 'A name is required'
+    });
+    if (reviewer) {
+        await workspaceState?.update('codep.lastReviewer', reviewer.trim());
+    }
+    return reviewer?.trim();
 }
 
-async function hasConfigurationFiles(): Promise<boolean> {
+async function approvePhase(target?: SpecTreeNode | vscode.Uri): Promise<void> {
     try {
-        const workspaceRoot = await getWorkspaceRoot();
-        const githubUri = vscode.Uri.joinPath(workspaceRoot, '.github');
-        
-        if (!(await directoryExists(githubUri))) {
-            return false;
+        const filePath = await pickPhaseDocument(target, 'Select the phase document to approve');
+        if (!filePath) {
+            return;
         }
 
-        // Check for copilot-instructions.md
-        const copilotInstructionsUri = vscode.Uri.joinPath(githubUri, 'copilot-instructions.md');
-        if (await fileExists(copilotInstructionsUri)) {
-            return true;
+        const approver = await askReviewer('Approved by');
+        if (!approver) {
+            return;
         }
 
-        // Check for configuration folders
-        const configFolders = ['hooks', 'instructions', 'steering', 'prompts'];
-        for (const folder of configFolders) {
-            const folderUri = vscode.Uri.joinPath(githubUri, folder);
-            if (await directoryExists(folderUri)) {
-                const files = await vscode.workspace.fs.readDirectory(folderUri);
-                if (files.length > 0) {
-                    return true;
-                }
-            }
-        }
+        await updatePhaseFrontMatter(filePath, (data, content) => {
+            delete data.reviewer;
+            delete data.comment;
+            return {
+                ...data,
+                approval: 'approved',
+                approver,
+                approvedAt: new Date().toISOString(),
+                contentHash: hashContent(content)
+            };
+        });
 
-        return false;
-    } catch {
-        return false;
+        const phase = getDocumentPhase(filePath);
+        const feature = getSpecFeature(filePath);
+        outputChannel.appendLine(`Approved ${phase} of ${feature} (${approver})`);
+        specExplorerProvider?.refresh();
+
+        const selection = await vscode.window.showInformationMessage(`Approved ${phase} of ${feature}.`, 'Continue Workflow');
+        if (selection === 'Continue Workflow') {
+            await vscode.commands.executeCommand('codep.continueWorkflow');
+        }
+    } catch (error) {
+        const errorMessage = `Error approving phase: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
     }
 }
 
-async function checkForConfigurationUpdates(context: vscode.ExtensionContext): Promise<boolean> {
+async function requestPhaseChanges(target?: SpecTreeNode | vscode.Uri): Promise<void> {
     try {
-        const workspaceRoot = await getWorkspaceRoot();
-        const bundledFiles = await getBundledFiles(context);
-        
-        if (bundledFiles.length === 0) {
-            return false;
+        const filePath = await pickPhaseDocument(target, 'Select the phase document to request changes on');
+        if (!filePath) {
+            return;
         }
 
-        let hasUpdates = false;
-        
-        for (const bundledFile of bundledFiles) {
-            const workspaceUri = vscode.Uri.joinPath(workspaceRoot, bundledFile.relativePath);
-            
-            if (await fileExists(workspaceUri)) {
-                // Compare content only - bundled files don't have meaningful modification times
-                const workspaceContent = await vscode.workspace.fs.readFile(workspaceUri);
-                const workspaceContentStr = Buffer.from(workspaceContent).toString('utf8');
-                
-                if (!(await compareFileContents(bundledFile.content, workspaceContentStr))) {
-                    outputChannel.appendLine(`Content differs: ${bundledFile.relativePath}`);
-                    hasUpdates = true;
-                }
-            } else {
-                // File doesn't exist in workspace, so it's an update
-                outputChannel.appendLine(`Missing in workspace: ${bundledFile.relativePath}`);
-                hasUpdates = true;
-            }
+        const reviewer = await askReviewer('Changes requested by');
+        if (!reviewer) {
+            return;
         }
 
-        return hasUpdates;
+        const comment = await vscode.window.showInputBox({
+            prompt: 'Requested changes',
+            validateInput: value => value.trim() ? null : 'Describe the changes you need'
+        });
+        if (!comment) {
+            return;
+        }
+
+        await updatePhaseFrontMatter(filePath, data => {
+            delete data.approver;
+            delete data.approvedAt;
+            delete data.contentHash;
+            return {
+                ...data,
+                approval: 'changes-requested',
+                reviewer,
+                comment: comment.trim()
+            };
+        });
+
+        const phase = getDocumentPhase(filePath);
+        const feature = getSpecFeature(filePath);
+        outputChannel.appendLine(`Changes requested on ${phase} of ${feature} (${reviewer}): ${comment}`);
+        specExplorerProvider?.refresh();
+
+        const prompt = getPhaseDefinition(filePath)?.prompt;
+        if (prompt) {
+            const selection = await vscode.window.showInformationMessage(`Requested changes on ${phase} of ${feature}.`, 'Send to Chat');
+            if (selection === 'Send to Chat') {
+                await openSpecChat(`${prompt} ${feature}: ${comment.trim()}`, feature);
+            }
+        }
     } catch (error) {
-        outputChannel.appendLine(`Error checking for configuration updates: ${error}`);
-        return false;
+        const errorMessage = `Error requesting changes: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
     }
 }
 
-async function offerConfigurationRefresh(context: vscode.ExtensionContext): Promise<void> {
-    const hasUpdates = await checkForConfigurationUpdates(context);
-    
-    if (hasUpdates) {
-        outputChannel.appendLine('Configuration updates available, showing prompt to user');
-        
-        const selection = await vscode.window.showInformationMessage(
-            'Newer configuration files are available in the extension. Would you like to refresh your configuration?',
-            'Refresh Configuration',
-            'Not Now'
-        );
+// ===== FEATURE LIFECYCLE =====
 
-        if (selection === 'Refresh Configuration') {
-            await injectConfig(context);
-        }
-    } else {
-        outputChannel.appendLine('No configuration updates needed');
+const FEATURE_NAME_PATTERN = /^[\w][\w-]*$/;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The feature a lifecycle command applies to: the explorer node, an explicit key, or a picked feature
+ */
+async function resolveFeatureArgument(featureOrNode: string | SpecTreeNode | undefined, placeHolder: string): Promise<string | undefined> {
+    if (typeof featureOrNode === 'object') {
+        return 'feature' in featureOrNode && featureOrNode.kind !== 'archivedFeature' ? featureOrNode.feature : undefined;
     }
+    return featureOrNode ?? await pickSpecFeature(placeHolder);
 }
 
-async function showDiffEditor(bundledFile: BundledFile, workspaceUri: vscode.Uri, index: number): Promise<void> {
-    
-    const bundledUri = vscode.Uri.parse(`${bundledFile.absolutePath}`);
+function getArchiveUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+    return vscode.Uri.joinPath(getSpecsUri(folder), ARCHIVE_DIRECTORY);
+}
 
-    await vscode.commands.executeCommand('vscode.diff',
-        bundledUri,
-        workspaceUri,
-        `${bundledFile.relativePath}: Extension Bundle ↔ Workspace`,
-        {
-            preview: false
+/**
+ * Features moved to the _archive directory of each workspace folder's specs root
+ */
+async function findArchivedFeatures(): Promise<{ feature: string; uri: vscode.Uri }[]> {
+    const archived: { feature: string; uri: vscode.Uri }[] = [];
+    for (const folder of getWorkspaceFolders()) {
+        const archiveUri = getArchiveUri(folder);
+        if (!(await directoryExists(archiveUri))) {
+            continue;
         }
-    );
+        for (const [name, type] of await vscode.workspace.fs.readDirectory(archiveUri)) {
+            if (type === vscode.FileType.Directory) {
+                archived.push({ feature: getFeatureKey(folder, name), uri: vscode.Uri.joinPath(archiveUri, name) });
+            }
+        }
+    }
+    return archived.sort((a, b) => a.feature.localeCompare(b.feature));
 }
 
-// ===== SPEC UTILITIES =====
+/**
+ * Move a feature's active task and status bar state to where the feature went: a new key, or nowhere
+ */
+async function moveFeatureState(feature: string, newFeature: string | null): Promise<void> {
+    const activeTask = getActiveTask(feature);
+    await clearActiveTask(feature);
+    if (activeTask && newFeature) {
+        await setActiveTask({ ...activeTask, feature: newFeature });
+    }
 
-function isSpecFile(filePath: string): boolean {
-    const normalizedPath = filePath.replace(/\\/g, '/');
-    return /\.github\/specs\/[^\/]+\/\d{2}-[^\/]+\.md$/.test(normalizedPath);
+    if (taskProgress.feature === feature) {
+        if (newFeature) {
+            await updateTaskProgress(newFeature);
+        } else {
+            taskProgress = { feature: null, totalTasks: 0, completedTasks: 0, currentTask: null, currentTaskLabel: null };
+            updateStatusBar();
+        }
+    }
 }
 
-function getSpecFeature(filePath: string): string | null {
-    const normalizedPath = filePath.replace(/\\/g, '/');
-    const match = normalizedPath.match(/\.github\/specs\/([^\/]+)\//);
-    return match ? match[1] : null;
+function positionAt(text: string, offset: number): vscode.Position {
+    const lines = text.slice(0, offset).split('\n');
+    return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
 }
 
-function getSpecPhase(filePath: string): string | null {
-    const fileName = filePath.split(/[\/\\]/).pop() || '';
-    const match = fileName.match(/^\d{2}-(.+)\.md$/);
-    return match ? match[1] : null;
-}
+/**
+ * Text edits replacing references to a renamed feature: paths into its directory in spec, steering
+ * and instruction documents, and its name in the "feature" lists of hooks. Files inside the feature
+ * are addressed by their new location since the rename comes first in the edit
+ */
+async function addFeatureRenameEdits(edit: vscode.WorkspaceEdit, folder: vscode.WorkspaceFolder, name: string, newName: string, featureUri: vscode.Uri, newUri: vscode.Uri): Promise<vscode.Uri[]> {
+    const specsRoot = getSpecLayout(folder).specsRoot;
+    const pathPattern = new RegExp(`(${escapeRegExp(specsRoot)}/)${escapeRegExp(name)}(?![\\w-])`, 'g');
+    const namePattern = new RegExp(`(^|[^\\w-])${escapeRegExp(name)}(?![\\w-])`, 'g');
+
+    const listFiles = async (directory: vscode.Uri, pattern: RegExp) => (await directoryExists(directory))
+        ? (await vscode.workspace.fs.readDirectory(directory))
+            .filter(([fileName, type]) => type === vscode.FileType.File && pattern.test(fileName))
+            .map(([fileName]) => vscode.Uri.joinPath(directory, fileName))
+        : [];
+
+    const documents: vscode.Uri[] = [vscode.Uri.joinPath(folder.uri, '.github', 'copilot-instructions.md')];
+    for (const [featureName, type] of await vscode.workspace.fs.readDirectory(getSpecsUri(folder))) {
+        if (type === vscode.FileType.Directory && featureName !== ARCHIVE_DIRECTORY) {
+            documents.push(...await listFiles(vscode.Uri.joinPath(getSpecsUri(folder), featureName), /\.md$/));
+        }
+    }
+    documents.push(...await listFiles(vscode.Uri.joinPath(folder.uri, ...STEERING_DIRECTORY.split('/')), /\.md$/));
+    const hooks = await listFiles(vscode.Uri.joinPath(folder.uri, ...HOOKS_DIRECTORY.split('/')), /\.ya?ml$/);
+
+    const edited: vscode.Uri[] = [];
+    const replace = async (uri: vscode.Uri, ranges: (text: string) => { start: number; end: number; text: string }[]) => {
+        const open = vscode.workspace.textDocuments.find(document => document.uri.fsPath === uri.fsPath);
+        const text = open?.getText() ?? await readTextFile(uri);
+        const replacements = text ? ranges(text) : [];
+        if (!text || replacements.length === 0) {
+            return;
+        }
+        const target = uri.fsPath.startsWith(featureUri.fsPath + '/') || uri.fsPath.startsWith(featureUri.fsPath + '\\')
+            ? vscode.Uri.joinPath(newUri, uri.fsPath.slice(featureUri.fsPath.length + 1).replace(/\\/g, '/'))
+            : uri;
+        for (const replacement of replacements) {
+            edit.replace(target, new vscode.Range(positionAt(text, replacement.start), positionAt(text, replacement.end)), replacement.text);
+        }
+        edited.push(target);
+    };
 
-async function findSpecFeatures(): Promise<string[]> {
-    const workspaceRoot = await getWorkspaceRoot();
-    const specsUri = vscode.Uri.joinPath(workspaceRoot, '.github', 'specs');
+    for (const uri of documents) {
+        await replace(uri, text => [...text.matchAll(pathPattern)].map(match => ({
+            start: match.index! + match[1].length,
+            end: match.index! + match[0].length,
+            text: newName
+        })));
+    }
 
-    if (!(await directoryExists(specsUri))) {
-        return [];
+    // Hooks name features in "feature: name", "feature: [a, b]" or a block list below "feature:"
+    for (const uri of hooks) {
+        await replace(uri, text => {
+            const replacements: { start: number; end: number; text: string }[] = [];
+            let offset = 0;
+            let inFeatureList = false;
+            for (const line of text.split('\n')) {
+                const isFeatureLine = /^feature\s*:/.test(line);
+                if (isFeatureLine || (inFeatureList && /^\s+-\s/.test(line))) {
+                    const start = isFeatureLine ? line.indexOf(':') + 1 : 0;
+                    for (const match of line.slice(start).matchAll(namePattern)) {
+                        const at = offset + start + match.index! + match[1].length;
+                        replacements.push({ start: at, end: at + name.length, text: newName });
+                    }
+                }
+                inFeatureList = isFeatureLine ? /^feature\s*:\s*(#.*)?$/.test(line.trim()) : inFeatureList && /^\s+-\s/.test(line);
+                offset += line.length + 1;
+            }
+            return replacements;
+        });
     }
 
-    const entries = await vscode.workspace.fs.readDirectory(specsUri);
-    return entries
-        .filter(([name, type]) => type === vscode.FileType.Directory)
-        .map(([name]) => name);
+    return edited;
 }
 
-async function findSpecFiles(feature: string): Promise<string[]> {
-    const workspaceRoot = await getWorkspaceRoot();
-    const featureUri = vscode.Uri.joinPath(workspaceRoot, '.github', 'specs', feature);
+/**
+ * Rename a feature directory in one undoable edit, updating references to it and its active task
+ */
+async function renameFeature(featureOrNode?: string | SpecTreeNode): Promise<void> {
+    try {
+        const feature = await resolveFeatureArgument(featureOrNode, 'Select the specification feature to rename');
+        const featureUri = feature ? await resolveFeatureUri(feature) : null;
+        const folder = featureUri ? vscode.workspace.getWorkspaceFolder(featureUri) : undefined;
+        if (!feature || !featureUri || !folder) {
+            return;
+        }
 
-    if (!(await directoryExists(featureUri))) {
-        return [];
-    }
+        const { name } = splitFeatureKey(feature);
+        const existing = new Set((await vscode.workspace.fs.readDirectory(getSpecsUri(folder))).map(([entry]) => entry));
+        const newName = (await vscode.window.showInputBox({
+            prompt: `New name of the ${name} specification`,
+            value: name,
+            validateInput: value => {
+                const trimmed = value.trim();
+                if (!FEATURE_NAME_PATTERN.test(trimmed) || trimmed === ARCHIVE_DIRECTORY) {
+                    return 'Use letters, digits, "-" and "_"';
+                }
+                return trimmed !== name && existing.has(trimmed) ? `${trimmed} already exists` : null;
+            }
+        }))?.trim();
+        if (!newName || newName === name) {
+            return;
+        }
+
+        const newUri = vscode.Uri.joinPath(featureUri, '..', newName);
+        const edit = new vscode.WorkspaceEdit();
+        edit.renameFile(featureUri, newUri);
+        const edited = await addFeatureRenameEdits(edit, folder, name, newName, featureUri, newUri);
+
+        const dirty = new Set(vscode.workspace.textDocuments.filter(document => document.isDirty).map(document => document.uri.fsPath));
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error('the rename was rejected');
+        }
+        for (const uri of edited.filter(uri => !dirty.has(uri.fsPath))) {
+            await (await vscode.workspace.openTextDocument(uri)).save();
+        }
 
-    const entries = await vscode.workspace.fs.readDirectory(featureUri);
-    return entries
-        .filter(([name, type]) => type === vscode.FileType.File && name.endsWith('.md'))
-        .map(([name]) => vscode.Uri.joinPath(featureUri, name).fsPath);
+        const newFeature = getFeatureKey(folder, newName);
+        await refreshWorkflows();
+        await moveFeatureState(feature, newFeature);
+        specModel.invalidate();
+        outputChannel.appendLine(`Renamed feature ${feature} to ${newFeature}, updating ${edited.length} document(s)`);
+    } catch (error) {
+        const errorMessage = `Error renaming feature: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
+    }
 }
 
-async function isSpecComplete(feature: string): Promise<boolean> {
-    const files = await findSpecFiles(feature);
-    const requiredPhases = ['01-requirements', '02-design', '03-tasks'];
+/**
+ * Move a feature into the specs root's _archive directory, which pickers and workflows skip
+ */
+async function archiveFeature(featureOrNode?: string | SpecTreeNode): Promise<void> {
+    try {
+        const feature = await resolveFeatureArgument(featureOrNode, 'Select the specification feature to archive');
+        const featureUri = feature ? await resolveFeatureUri(feature) : null;
+        const folder = featureUri ? vscode.workspace.getWorkspaceFolder(featureUri) : undefined;
+        const model = feature ? await loadWorkspaceFeature(feature) : null;
+        if (!feature || !featureUri || !folder || !model) {
+            return;
+        }
 
-    for (const phase of requiredPhases) {
-        const hasPhase = files.some(file => file.includes(phase));
-        if (!hasPhase) {
-            return false;
+        if (!isFeatureComplete(model) && !model.abandoned) {
+            const confirmation = await vscode.window.showWarningMessage(
+                `${feature} is not complete. Archive it anyway?`,
+                { modal: true, detail: 'Archived specifications are hidden from pickers and workflows. Abandon the feature instead to record why it was dropped.' },
+                'Archive'
+            );
+            if (confirmation !== 'Archive') {
+                return;
+            }
         }
-    }
 
-    // Check if tasks file has uncompleted tasks
-    const tasksFile = files.find(file => file.includes('03-tasks'));
-    if (tasksFile) {
-        try {
-            const tasksUri = vscode.Uri.file(tasksFile);
-            const tasksContent = await vscode.workspace.fs.readFile(tasksUri);
-            const contentStr = Buffer.from(tasksContent).toString('utf8');
+        const archivedUri = vscode.Uri.joinPath(getArchiveUri(folder), splitFeatureKey(feature).name);
+        if (await directoryExists(archivedUri)) {
+            throw new Error(`an archived feature named ${splitFeatureKey(feature).name} already exists`);
+        }
+        await ensureDirectory(archivedUri);
+        const edit = new vscode.WorkspaceEdit();
+        edit.renameFile(featureUri, archivedUri);
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error('the move was rejected');
+        }
+
+        await moveFeatureState(feature, null);
+        specModel.invalidate();
+        outputChannel.appendLine(`Archived feature ${feature}`);
+    } catch (error) {
+        const errorMessage = `Error archiving feature: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
+    }
+}
 
-            // Check for uncompleted tasks (- [ ])
-            const hasUncompletedTasks = contentStr.includes('- [ ]');
-            if (hasUncompletedTasks) {
-                return false;
+/**
+ * Move an archived feature back into the specs root
+ */
+async function restoreFeature(node?: SpecTreeNode): Promise<void> {
+    try {
+        let archived = node?.kind === 'archivedFeature' ? { feature: node.feature, uri: node.uri } : undefined;
+        if (!archived) {
+            const candidates = await findArchivedFeatures();
+            if (candidates.length === 0) {
+                vscode.window.showInformationMessage('No archived specifications found.');
+                return;
             }
-        } catch (error) {
-            outputChannel.appendLine(`Error reading tasks file ${tasksFile}: ${error}`);
-            // If we can't read the file, assume it's incomplete
-            return false;
+            archived = (await vscode.window.showQuickPick(
+                candidates.map(candidate => ({ label: candidate.feature, ...candidate })),
+                { placeHolder: 'Select the archived specification to restore' }
+            ));
+            if (!archived) {
+                return;
+            }
+        }
+
+        const restoredUri = vscode.Uri.joinPath(archived.uri, '..', '..', splitFeatureKey(archived.feature).name);
+        if (await directoryExists(restoredUri)) {
+            throw new Error(`a feature named ${splitFeatureKey(archived.feature).name} already exists`);
         }
+        const edit = new vscode.WorkspaceEdit();
+        edit.renameFile(archived.uri, restoredUri);
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error('the move was rejected');
+        }
+
+        await refreshWorkflows();
+        specModel.invalidate();
+        outputChannel.appendLine(`Restored feature ${archived.feature}`);
+    } catch (error) {
+        const errorMessage = `Error restoring feature: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
     }
+}
+
+/**
+ * Record in the feature's feature.yml that it was abandoned and why; abandoned features are no
+ * longer offered by workflows and count as settled in the command line status
+ */
+async function abandonFeature(featureOrNode?: string | SpecTreeNode): Promise<void> {
+    try {
+        const feature = await resolveFeatureArgument(featureOrNode, 'Select the specification feature to abandon');
+        const featureUri = feature ? await resolveFeatureUri(feature) : null;
+        if (!feature || !featureUri) {
+            return;
+        }
 
-    return true;
+        const reason = (await vscode.window.showInputBox({
+            prompt: `Why is ${feature} abandoned?`,
+            placeHolder: 'e.g. Superseded by the billing-v2 specification',
+            validateInput: value => value.trim() ? null : 'A reason is required'
+        }))?.trim();
+        if (!reason) {
+            return;
+        }
+
+        if (getActiveTask(feature)) {
+            await stopTaskImplementation(feature);
+        }
+
+        const settings = await readFeatureSettings(workspaceFileSystem, featureUri.fsPath);
+        const settingsUri = vscode.Uri.joinPath(featureUri, FEATURE_SETTINGS_FILE);
+        await vscode.workspace.fs.writeFile(settingsUri, Buffer.from(serializeFeatureSettings({
+            ...settings,
+            abandoned: { reason, date: new Date().toISOString() }
+        }), 'utf8'));
+
+        specModel.invalidate(feature);
+        outputChannel.appendLine(`Abandoned feature ${feature}: ${reason}`);
+    } catch (error) {
+        const errorMessage = `Error abandoning feature: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
+    }
 }
 
 // ===== COMMAND IMPLEMENTATIONS =====
 
-async function injectConfig(context: vscode.ExtensionContext): Promise<void> {
+async function injectConfig(context: vscode.ExtensionContext, folder?: vscode.WorkspaceFolder): Promise<void> {
     try {
-        outputChannel.appendLine('Starting configuration injection...');
+        const targetFolder = folder ?? await pickWorkspaceFolder('Select the workspace folder to inject configuration into');
+        if (!targetFolder) {
+            return;
+        }
+
+        outputChannel.appendLine(`Starting configuration injection into ${targetFolder.name}...`);
 
         const bundledFiles = await getBundledFiles(context);
         if (bundledFiles.length === 0) {
@@ -745,7 +4039,7 @@ async function injectConfig(context: vscode.ExtensionContext): Promise<void> {
             return;
         }
 
-        const workspaceRoot = await getWorkspaceRoot();
+        const workspaceRoot = targetFolder.uri;
         let copiedCount = 0;
         let conflictCount = 0;
 
@@ -761,20 +4055,48 @@ async function injectConfig(context: vscode.ExtensionContext): Promise<void> {
 
         // Process each bundled file
         const conflicts: { file: BundledFile, targetUri: vscode.Uri; }[] = [];
+        const mergeConflicts: vscode.Uri[] = [];
+        let updatedCount = 0;
+        let mergedCount = 0;
 
         for (const file of bundledFiles) {
             const targetUri = vscode.Uri.joinPath(workspaceRoot, file.relativePath);
 
             if (await fileExists(targetUri)) {
-                // Compare contents
+                // Compare against the bundle we installed last time to tell upstream changes from local ones
                 const workspaceContent = await vscode.workspace.fs.readFile(targetUri);
                 const workspaceContentStr = Buffer.from(workspaceContent).toString('utf8');
-
-                if (!(await compareFileContents(file.content, workspaceContentStr))) {
-                    // Content differs, collect for batch processing
-                    conflicts.push({ file, targetUri });
-                    conflictCount++;
-                    outputChannel.appendLine(`Conflict detected: ${file.relativePath}`);
+                const baseline = getConfigBaseline(targetFolder, file.relativePath);
+                const plan = planConfigUpdate(baseline, file.content, workspaceContentStr);
+
+                switch (plan) {
+                    case 'update':
+                        await vscode.workspace.fs.writeFile(targetUri, Buffer.from(file.content, 'utf8'));
+                        updatedCount++;
+                        outputChannel.appendLine(`Updated: ${file.relativePath}`);
+                        break;
+                    case 'local':
+                        outputChannel.appendLine(`Kept local changes: ${file.relativePath}`);
+                        break;
+                    case 'merge': {
+                        const merged = mergeThreeWay(baseline!, workspaceContentStr, file.content);
+                        await vscode.workspace.fs.writeFile(targetUri, Buffer.from(merged.text, 'utf8'));
+                        if (merged.conflicts > 0) {
+                            mergeConflicts.push(targetUri);
+                            conflictCount++;
+                            outputChannel.appendLine(`Merged with ${merged.conflicts} conflict(s): ${file.relativePath}`);
+                        } else {
+                            mergedCount++;
+                            outputChannel.appendLine(`Merged: ${file.relativePath}`);
+                        }
+                        break;
+                    }
+                    case 'conflict':
+                        // No baseline recorded yet, so there is nothing to merge against
+                        conflicts.push({ file, targetUri });
+                        conflictCount++;
+                        outputChannel.appendLine(`Conflict detected: ${file.relativePath}`);
+                        break;
                 }
             } else {
                 // File doesn't exist, create it
@@ -785,6 +4107,10 @@ async function injectConfig(context: vscode.ExtensionContext): Promise<void> {
             }
         }
 
+        // Files without a baseline get their diff offered once; from now on whatever the workspace keeps
+        // of them counts as local changes, and later bundle changes merge into them
+        await setConfigBaselines(targetFolder, bundledFiles);
+
         // Open all diff editors with slight delays to ensure they all appear
         for (let i = 0; i < conflicts.length; i++) {
             const { file, targetUri } = conflicts[i];
@@ -793,11 +4119,18 @@ async function injectConfig(context: vscode.ExtensionContext): Promise<void> {
             }, i * 100); // 100ms delay between each diff editor
         }
 
-        const message = `Configuration injection completed. Created: ${copiedCount}, Conflicts: ${conflictCount}`;
+        // Files with conflict markers open in the editor, where the merge conflict actions resolve them
+        for (const targetUri of mergeConflicts) {
+            await vscode.commands.executeCommand('vscode.open', targetUri, { preview: false });
+        }
+
+        const message = `Configuration injection completed. Created: ${copiedCount}, Updated: ${updatedCount}, Merged: ${mergedCount}, Conflicts: ${conflictCount}`;
         outputChannel.appendLine(message);
 
         if (conflictCount > 0) {
-            vscode.window.showInformationMessage(`${message}. Please review and save the diff editors to resolve conflicts.`);
+            vscode.window.showInformationMessage(`${message}. Please review the opened editors to resolve conflicts.`);
+        } else if (copiedCount + updatedCount + mergedCount === 0) {
+            vscode.window.showInformationMessage('Configuration is up to date.');
         } else {
             const selection = await vscode.window.showInformationMessage(
                 `${message}. Reload window to activate new configuration?`,
@@ -844,6 +4177,51 @@ async function showSpecNavigation(): Promise<void> {
     }
 }
 
+/**
+ * The feature of the active spec editor, or one picked by the user
+ */
+async function pickSpecFeature(placeHolder: string): Promise<string | undefined> {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (activeEditor && isSpecFile(activeEditor.document.uri.fsPath)) {
+        const feature = getSpecFeature(activeEditor.document.uri.fsPath);
+        if (feature) {
+            return feature;
+        }
+    }
+
+    const features = await findSpecFeatures();
+    if (features.length === 0) {
+        vscode.window.showInformationMessage('No specification features found.');
+        return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(createFeatureQuickPickItems(features, () => ({})), { placeHolder });
+    return selected?.feature;
+}
+
+/**
+ * Quick pick items for features, grouped under a separator per workspace folder in multi-root workspaces
+ */
+function createFeatureQuickPickItems(features: string[], describe: (feature: string) => Partial<vscode.QuickPickItem>): FeatureQuickPickItem[] {
+    const items: FeatureQuickPickItem[] = [];
+    let currentFolder: string | null = null;
+
+    const sortedFeatures = isMultiRootWorkspace()
+        ? [...features].sort((a, b) => (splitFeatureKey(a).folder?.index ?? 0) - (splitFeatureKey(b).folder?.index ?? 0))
+        : features;
+
+    for (const feature of sortedFeatures) {
+        const { folder, name } = splitFeatureKey(feature);
+        if (folder && folder.name !== currentFolder) {
+            currentFolder = folder.name;
+            items.push({ label: folder.name, kind: vscode.QuickPickItemKind.Separator, feature: '' });
+        }
+        items.push({ label: name, ...describe(feature), feature });
+    }
+
+    return items;
+}
+
 async function showSpecFeatures(): Promise<void> {
     const features = await findSpecFeatures();
 
@@ -860,8 +4238,7 @@ async function showSpecFeatures(): Promise<void> {
         return;
     }
 
-    const items: vscode.QuickPickItem[] = features.map(feature => ({
-        label: feature,
+    const items = createFeatureQuickPickItems(features, feature => ({
         description: 'Specification feature',
         detail: `Open ${feature} specification`
     }));
@@ -871,7 +4248,7 @@ async function showSpecFeatures(): Promise<void> {
     });
 
     if (selected) {
-        await showSpecFiles(selected.label);
+        await showSpecFiles(selected.feature);
     }
 }
 
@@ -883,36 +4260,46 @@ async function showSpecFiles(feature: string, currentFile?: string): Promise<voi
         return;
     }
 
-    const items: SpecItem[] = files.map(filePath => {
-        const fileName = filePath.split(/[\/\\]/).pop() || '';
-        const phase = getSpecPhase(filePath) || fileName;
-        const isCurrent = currentFile === filePath;
-
-        return {
-            type: 'file',
-            path: filePath,
-            phase,
-            label: `${isCurrent ? '$(arrow-right) ' : ''}${phase}`,
-            description: fileName,
-            detail: filePath
-        };
+    const fileItem = (filePath: string, phase: string): SpecItem => ({
+        type: 'file',
+        path: filePath,
+        phase,
+        label: `${currentFile === filePath ? '$(arrow-right) ' : ''}${phase}`,
+        description: filePath.split(/[\/\\]/).pop() || '',
+        detail: filePath
     });
 
-    // Sort by phase order
-    items.sort((a, b) => {
-        const order = ['requirements', 'design', 'tasks'];
-        const aIndex = order.findIndex(phase => a.phase?.includes(phase));
-        const bIndex = order.findIndex(phase => b.phase?.includes(phase));
-        return aIndex - bIndex;
+    // Phases in workflow order, then documents that belong to no phase of the feature's workflow
+    const layout = getFeatureLayout(feature);
+    const items: SpecItem[] = layout.phases.map(phase => {
+        const filePath = findPhaseFile(files, phase.id, layout);
+        return filePath ? fileItem(filePath, phase.id) : {
+            type: 'phase',
+            path: '',
+            phase: phase.id,
+            label: `$(circle-large-outline) ${phase.id}`,
+            description: 'not started',
+            detail: phase.prompt ? `Write ${phase.file} with ${phase.prompt}` : phase.file
+        };
     });
+    const phaseFiles = new Set(items.map(item => item.path));
+    items.push(...files
+        .filter(filePath => !phaseFiles.has(filePath))
+        .sort()
+        .map(filePath => fileItem(filePath, filePath.split(/[\/\\]/).pop() || '')));
 
     const selected = await vscode.window.showQuickPick(items, {
-        placeHolder: `Navigate ${feature} specification files`
+        placeHolder: `Navigate ${feature} specification files (${layout.workflow} workflow)`
     });
 
     if (selected && selected.type === 'file') {
         const uri = vscode.Uri.file(selected.path);
         await vscode.commands.executeCommand('vscode.open', uri);
+    } else if (selected && selected.type === 'phase') {
+        const prompt = layout.phases.find(phase => phase.id === selected.phase)?.prompt;
+        if (prompt) {
+            await openSpecChat(prompt, feature);
+        }
     }
 }
 
@@ -920,8 +4307,13 @@ async function initWorkflow(context: vscode.ExtensionContext): Promise<void> {
     try {
         outputChannel.appendLine('Initializing workflow...');
 
+        const folder = await pickWorkspaceFolder('Select the workspace folder to initialize the spec workflow in');
+        if (!folder) {
+            return;
+        }
+
         // Check if configuration needs injection/refresh
-        const workspaceRoot = await getWorkspaceRoot();
+        const workspaceRoot = folder.uri;
         const copilotInstructionsUri = vscode.Uri.joinPath(workspaceRoot, '.github', 'copilot-instructions.md');
         const promptsUri = vscode.Uri.joinPath(workspaceRoot, '.github', 'prompts');
 
@@ -929,14 +4321,37 @@ async function initWorkflow(context: vscode.ExtensionContext): Promise<void> {
 
         if (!configExists) {
             // Need to inject configuration first
-            await injectConfig(context);
+            await injectConfig(context, folder);
+        }
+
+        // A feature following another than the only workflow records its choice in feature.yml
+        const workflow = await pickWorkflow(folder);
+        if (!workflow) {
+            return;
+        }
+        let featureName = '';
+        if (getWorkflowDefinitions(folder).workflows.length > 1) {
+            featureName = (await vscode.window.showInputBox({
+                prompt: `Name of the new ${workflow} specification`,
+                placeHolder: 'feature-name',
+                validateInput: value => /^[\w][\w-]*$/.test(value.trim()) ? null : 'Use letters, digits, "-" and "_"'
+            }))?.trim() ?? '';
+            if (!featureName) {
+                return;
+            }
+            const featureUri = vscode.Uri.joinPath(getSpecsUri(folder), featureName);
+            await vscode.workspace.fs.createDirectory(featureUri);
+            await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(featureUri, FEATURE_SETTINGS_FILE), Buffer.from(`workflow: ${workflow}\n`, 'utf8'));
+            featureWorkflows.set(getFeatureKey(folder, featureName), workflow);
+            specModel.invalidate();
         }
 
-        // Trigger spec01 prompt
-        outputChannel.appendLine('About to trigger /spec01 prompt...');
+        // Trigger the prompt of the workflow's first phase (/spec01 by default)
+        const firstPrompt = getWorkflowLayout(getSpecLayout(folder), getWorkflowDefinitions(folder), workflow).phases[0].prompt;
+        outputChannel.appendLine(`About to trigger ${firstPrompt} prompt...`);
 
         // Check if prompt file exists in workspace
-        const promptFile = vscode.Uri.joinPath(workspaceRoot, '.github', 'prompts', 'spec01.prompt.md');
+        const promptFile = vscode.Uri.joinPath(workspaceRoot, '.github', 'prompts', `${firstPrompt.replace(/^\//, '')}.prompt.md`);
         const promptExists = await fileExists(promptFile);
         outputChannel.appendLine(`Prompt file exists in workspace: ${promptExists}`);
 
@@ -947,9 +4362,9 @@ async function initWorkflow(context: vscode.ExtensionContext): Promise<void> {
             outputChannel.appendLine(`Prompt contains "MUST ask for feature name": ${contentStr.includes('MUST ask for the feature name')}`);
         }
 
-        await vscode.commands.executeCommand('workbench.action.chat.open', '/spec01');
+        await openSpecChat(featureName ? `${firstPrompt} ${featureName}` : firstPrompt, featureName ? getFeatureKey(folder, featureName) : null);
 
-        outputChannel.appendLine('Workflow initialization completed - spec01 prompt triggered');
+        outputChannel.appendLine(`Workflow initialization completed - ${firstPrompt} prompt triggered`);
 
     } catch (error) {
         const errorMessage = `Error initializing workflow: ${error}`;
@@ -966,8 +4381,7 @@ async function continueWorkflow(): Promise<void> {
         const incompleteFeatures: string[] = [];
 
         for (const feature of features) {
-            const isComplete = await isSpecComplete(feature);
-            if (!isComplete) {
+            if (await isSpecInProgress(feature)) {
                 incompleteFeatures.push(feature);
             }
         }
@@ -976,13 +4390,12 @@ async function continueWorkflow(): Promise<void> {
             if (features.length === 0) {
                 vscode.window.showInformationMessage('No specification exist.');
             } else {
-                vscode.window.showInformationMessage('No incomplete workflows found. All specifications are complete!');
+                vscode.window.showInformationMessage('No incomplete workflows found. All specifications are complete or abandoned!');
             }
             return;
         }
 
-        const items: vscode.QuickPickItem[] = incompleteFeatures.map(feature => ({
-            label: feature,
+        const items = createFeatureQuickPickItems(incompleteFeatures, feature => ({
             description: 'Incomplete specification',
             detail: `Continue working on ${feature}`
         }));
@@ -992,45 +4405,605 @@ async function continueWorkflow(): Promise<void> {
         });
 
         if (selected) {
-            // Update task progress for the selected feature
-            await updateTaskProgress(selected.label);
-            
-            // Determine which phase to continue and execute appropriate prompt
-            const files = await findSpecFiles(selected.label);
-
-            // Check which phase needs to be worked on
-            const hasRequirements = files.some(file => file.includes('01-requirements'));
-            const hasDesign = files.some(file => file.includes('02-design'));
-            const hasTasks = files.some(file => file.includes('03-tasks') || file.includes('03-plan'));
-
-            let promptCommand = '';
-
-            if (!hasRequirements) {
-                promptCommand = '/spec01';
-            } else if (!hasDesign) {
-                promptCommand = '/spec02';
-            } else if (!hasTasks) {
-                promptCommand = '/spec03';
-            } else {
-                // Has all files but tasks are incomplete, continue with implementation
-                promptCommand = '/spec04';
+            await resumeFeatureWorkflow(selected.feature);
+        }
+
+    } catch (error) {
+        const errorMessage = `Error continuing workflow: ${error}`;
+        outputChannel.appendLine(errorMessage);
+        vscode.window.showErrorMessage(errorMessage);
+    }
+}
+
+/**
+ * Resume a feature at the first phase that is missing or not yet approved, else at implementation
+ */
+async function resumeFeatureWorkflow(feature: string): Promise<void> {
+    // Update task progress for the feature
+    await updateTaskProgress(feature);
+    
+    // Resume at the first phase that is missing, lacks a required section or awaits approval
+    const model = await loadWorkspaceFeature(feature);
+    const layout = getFeatureLayout(feature);
+    let promptCommand = model ? layout.taskPrompt : layout.phases[0].prompt;
+
+    for (const state of model?.phases ?? []) {
+        const phase = layout.phases.find(candidate => candidate.id === state.phase)!;
+        const approval = state.approval;
+        const phaseFile = state.document?.path;
+        if (phaseFile && approval?.status === 'approved' && approval.modifiedSinceApproval) {
+            const selection = await vscode.window.showWarningMessage(
+                `${state.phase} of ${feature} changed since it was approved by ${approval.approver ?? 'unknown'}.`,
+                'Review Changes',
+                'Continue Anyway'
+            );
+            if (selection === 'Review Changes') {
+                await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(phaseFile));
+                return;
+            }
+            if (selection !== 'Continue Anyway') {
+                return;
+            }
+        } else if (!isPhaseComplete(state)) {
+            promptCommand = phase.prompt;
+            break;
+        }
+    }
+
+    outputChannel.appendLine(`Executing prompt: ${promptCommand} for feature: ${feature}`);
+
+    // Execute the appropriate spec prompt
+    await openSpecChat(promptCommand, feature);
+
+    outputChannel.appendLine(`Workflow continuation completed - ${promptCommand} prompt triggered for "${feature}"`);
+}
+
+// ===== LANGUAGE MODEL TOOLS =====
+
+function toolResult(value: unknown): vscode.LanguageModelToolResult {
+    return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(JSON.stringify(value, null, 2))]);
+}
+
+function describeTask(task: TaskItem, activeTask: TaskState | null) {
+    return {
+        number: getTaskLabel(task),
+        text: task.text,
+        completed: task.completed,
+        implementing: activeTask?.task === getTaskLabel(task),
+        parent: task.parent,
+        requirements: task.requirements,
+        verify: task.verify
+    };
+}
+
+class SpecContextTool implements vscode.LanguageModelTool<SpecContextToolInput> {
+    public prepareInvocation(options: vscode.LanguageModelToolInvocationPrepareOptions<SpecContextToolInput>): vscode.PreparedToolInvocation {
+        return { invocationMessage: `Reading the ${options.input.feature ?? 'active'} specification` };
+    }
+
+    public async invoke(options: vscode.LanguageModelToolInvocationOptions<SpecContextToolInput>): Promise<vscode.LanguageModelToolResult> {
+        const activeContext = options.input.feature ? null : await getActiveSpecContext();
+        const feature = options.input.feature ? await resolveFeatureKey(options.input.feature) : activeContext?.feature;
+        if (!feature) {
+            return toolResult({ error: 'No feature with open tasks found', features: await findSpecFeatures() });
+        }
+
+        const files = await findSpecFiles(feature);
+        if (files.length === 0) {
+            return toolResult({ error: `Feature ${feature} not found`, features: await findSpecFeatures() });
+        }
+
+        const layout = getFeatureLayout(feature);
+        const phases = [];
+        for (const { id } of layout.phases) {
+            const file = findPhaseFile(files, id, layout);
+            phases.push({
+                phase: id,
+                file: file ?? null,
+                approval: file ? (await getPhaseApproval(file)).status : null
+            });
+        }
+
+        const tasksFilePath = findPhaseFile(files, 'tasks', layout);
+        const tasks = tasksFilePath ? await parseTasksFromFile(tasksFilePath) : [];
+        const nextTaskIndex = tasks.findIndex(task => !task.completed);
+        const nextTask = nextTaskIndex >= 0 ? tasks[findStartableTaskIndex(tasks, nextTaskIndex)] : null;
+        const activeTask = getActiveTask(feature);
+        const implementing = activeTask && tasks.find(task => getTaskLabel(task) === activeTask.task);
+
+        return toolResult({
+            feature,
+            phases,
+            tasks: { total: tasks.length, completed: tasks.filter(task => task.completed).length },
+            nextTask: nextTask ? describeTask(nextTask, activeTask) : null,
+            activeTask: implementing ? describeTask(implementing, activeTask) : null
+        });
+    }
+}
+
+class ListTasksTool implements vscode.LanguageModelTool<ListTasksToolInput> {
+    public prepareInvocation(options: vscode.LanguageModelToolInvocationPrepareOptions<ListTasksToolInput>): vscode.PreparedToolInvocation {
+        return { invocationMessage: `Listing tasks of ${options.input.feature}` };
+    }
+
+    public async invoke(options: vscode.LanguageModelToolInvocationOptions<ListTasksToolInput>): Promise<vscode.LanguageModelToolResult> {
+        const feature = await resolveFeatureKey(options.input.feature);
+        const tasksFilePath = await findTasksFile(feature);
+        if (!tasksFilePath) {
+            return toolResult({ error: `Feature ${feature} has no tasks document` });
+        }
+
+        const activeTask = getActiveTask(feature);
+        const tasks = await parseTasksFromFile(tasksFilePath);
+        return toolResult({ feature, tasks: tasks.map(task => describeTask(task, activeTask)) });
+    }
+}
+
+class StartTaskTool implements vscode.LanguageModelTool<StartTaskToolInput> {
+    public prepareInvocation(options: vscode.LanguageModelToolInvocationPrepareOptions<StartTaskToolInput>): vscode.PreparedToolInvocation {
+        const { feature, task } = options.input;
+        return {
+            invocationMessage: `Starting task ${task} of ${feature}`,
+            confirmationMessages: {
+                title: 'Start task',
+                message: new vscode.MarkdownString(`Mark task **${task}** of **${feature}** as implementing?`)
+            }
+        };
+    }
+
+    public async invoke(options: vscode.LanguageModelToolInvocationOptions<StartTaskToolInput>): Promise<vscode.LanguageModelToolResult> {
+        const feature = await resolveFeatureKey(options.input.feature);
+        const tasksFilePath = await findTasksFile(feature);
+        const tasks = tasksFilePath ? await parseTasksFromFile(tasksFilePath) : [];
+        const taskIndex = await resolveTaskIndex(feature, String(options.input.task));
+
+        if (taskIndex === null || !tasks[taskIndex]) {
+            return toolResult({ error: `Task ${options.input.task} not found in ${feature}` });
+        }
+        if (tasks[taskIndex].completed) {
+            return toolResult({ error: `Task ${getTaskLabel(tasks[taskIndex])} of ${feature} is already completed` });
+        }
+
+        await startTaskAutonomously(feature, taskIndex);
+        return toolResult({ started: describeTask(tasks[taskIndex], getActiveTask(feature)), feature });
+    }
+}
+
+class CompleteTaskTool implements vscode.LanguageModelTool<CompleteTaskToolInput> {
+    public async prepareInvocation(options: vscode.LanguageModelToolInvocationPrepareOptions<CompleteTaskToolInput>): Promise<vscode.PreparedToolInvocation> {
+        const activeTask = resolveActiveTask(options.input.feature ? await resolveFeatureKey(options.input.feature) : undefined);
+        const description = activeTask ? `task ${activeTask.task} of ${activeTask.feature}` : 'the active task';
+        return {
+            invocationMessage: `Completing ${description}`,
+            confirmationMessages: {
+                title: 'Complete task',
+                message: new vscode.MarkdownString(`Check off ${description} in its tasks document?`)
             }
+        };
+    }
+
+    public async invoke(options: vscode.LanguageModelToolInvocationOptions<CompleteTaskToolInput>): Promise<vscode.LanguageModelToolResult> {
+        const resolved = resolveActiveTask(options.input.feature ? await resolveFeatureKey(options.input.feature) : undefined);
+        if (!resolved) {
+            return toolResult({ error: 'No task is being implemented. Start one with codep_startTask first.' });
+        }
+
+        // Find the task by its outline number, in case the plan changed since it was started
+        const missingTask = { error: `Task ${resolved.task} of ${resolved.feature} no longer exists in its tasks document`, feature: resolved.feature };
+        const activeTask = await syncActiveTask(resolved.feature);
+        const tasksFilePath = await findTasksFile(resolved.feature);
+        if (!activeTask || !tasksFilePath) {
+            return toolResult(missingTask);
+        }
+
+        const verification = await completeTaskImplementation(activeTask.feature, 'agent');
+        const tasks = await parseTasksFromFile(tasksFilePath);
+        const task = tasks[activeTask.taskIndex];
+        if (!task) {
+            return toolResult(missingTask);
+        }
+
+        if (verification && !verification.passed) {
+            return toolResult({
+                error: `Verification failed: the task is still being implemented. Fix the failures, then call codep_completeTask again.`,
+                feature: activeTask.feature,
+                task: describeTask(task, activeTask),
+                verification
+            });
+        }
+        if (!task.completed) {
+            return toolResult({
+                error: `The tasks document ${tasksFilePath} could not be updated: the task is still being implemented.`,
+                feature: activeTask.feature,
+                task: describeTask(task, activeTask)
+            });
+        }
+
+        return toolResult({
+            feature: activeTask.feature,
+            completed: describeTask(task, null),
+            verification: verification ? { command: verification.command, passed: true } : null,
+            remaining: tasks.filter(candidate => !candidate.completed).length
+        });
+    }
+}
+
+// ===== CHAT PARTICIPANT =====
+
+const CHAT_PARTICIPANT_ID = 'codep.chat';
+
+const CHAT_FOLLOWUPS: Record<string, vscode.ChatFollowup> = {
+    requirements: { prompt: '', command: 'design', label: 'Continue with the design' },
+    design: { prompt: '', command: 'tasks', label: 'Continue with the implementation plan' },
+    tasks: { prompt: '', command: 'run', label: 'Run the next task' },
+    run: { prompt: '', command: 'status', label: 'Show spec status' }
+};
 
-            outputChannel.appendLine(`Executing prompt: ${promptCommand} for feature: ${selected.label}`);
+async function readTextFile(uri: vscode.Uri): Promise<string | null> {
+    try {
+        const content = await vscode.workspace.fs.readFile(uri);
+        return Buffer.from(content).toString('utf8');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Body of a spec prompt, from the workspace configuration when injected, else from the extension bundle
+ */
+async function readPromptInstructions(context: vscode.ExtensionContext, feature: string | null, prompt: string): Promise<string> {
+    const featureUri = feature ? await resolveFeatureUri(feature) : null;
+    const folderUri = (featureUri ? vscode.workspace.getWorkspaceFolder(featureUri) : undefined)?.uri
+        ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+    prompt = prompt.replace(/^\//, '');
+
+    const candidates = [
+        ...(folderUri ? [vscode.Uri.joinPath(folderUri, '.github', 'prompts', `${prompt}.prompt.md`)] : []),
+        vscode.Uri.joinPath(context.extensionUri, '.github', 'prompts', `${prompt}.prompt.md`)
+    ];
+
+    for (const candidate of candidates) {
+        const content = await readTextFile(candidate);
+        if (content !== null) {
+            return parseFrontMatter(content).content;
+        }
+    }
+    return '';
+}
+
+/**
+ * Spec documents of a feature as prompt context, each also shown as a reference in the response
+ */
+async function buildSpecDocumentsContext(feature: string, phases: SpecPhaseDefinition[], stream: vscode.ChatResponseStream): Promise<string> {
+    const files = await findSpecFiles(feature);
+    const layout = getFeatureLayout(feature);
+    const sections: string[] = [];
+
+    for (const phase of phases) {
+        const file = findPhaseFile(files, phase.id, layout);
+        if (!file) {
+            continue;
+        }
+        const uri = vscode.Uri.file(file);
+        const content = await readTextFile(uri);
+        if (content !== null) {
+            stream.reference(uri);
+            sections.push(`### ${file.split(/[\/\\]/).pop()}\n\n${parseFrontMatter(content).content}`);
+        }
+    }
+
+    return sections.length > 0 ? sections.join('\n\n') : '(no specification documents yet)';
+}
+
+function toChatHistory(chatContext: vscode.ChatContext): vscode.LanguageModelChatMessage[] {
+    return chatContext.history.flatMap(turn => {
+        if (turn instanceof vscode.ChatRequestTurn) {
+            return [vscode.LanguageModelChatMessage.User(turn.prompt)];
+        }
+        const text = turn.response
+            .map(part => part instanceof vscode.ChatResponseMarkdownPart ? part.value.value : '')
+            .join('');
+        return text ? [vscode.LanguageModelChatMessage.Assistant(text)] : [];
+    });
+}
+
+async function streamModelResponse(
+    request: vscode.ChatRequest,
+    messages: vscode.LanguageModelChatMessage[],
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<string> {
+    const response = await request.model.sendRequest(messages, {}, token);
+    let text = '';
+    for await (const fragment of response.text) {
+        text += fragment;
+        stream.markdown(fragment);
+    }
+    return text;
+}
+
+/**
+ * The feature a chat request refers to: its first word when that names a feature,
+ * else the feature of the active spec editor, else the next feature with open work
+ */
+async function resolveChatFeature(prompt: string): Promise<{ feature: string | null; rest: string }> {
+    const [first = '', ...others] = prompt.trim().split(/\s+/);
+    const features = await findSpecFeatures();
+    const named = features.find(feature => feature === first || splitFeatureKey(feature).name === first);
+    if (named) {
+        return { feature: named, rest: others.join(' ') };
+    }
+
+    const activeEditor = vscode.window.activeTextEditor;
+    if (activeEditor && isSpecFile(activeEditor.document.uri.fsPath)) {
+        return { feature: getSpecFeature(activeEditor.document.uri.fsPath), rest: prompt.trim() };
+    }
+
+    const activeContext = await getActiveSpecContext();
+    return { feature: activeContext?.feature ?? null, rest: prompt.trim() };
+}
 
-            // Execute the appropriate spec prompt
-            await vscode.commands.executeCommand('workbench.action.chat.open', promptCommand);
+/**
+ * The first fenced markdown block of a response, i.e. the document the model was asked to produce
+ */
+function extractMarkdownDocument(text: string): string | null {
+    const match = text.match(/```(?:markdown|md)\s*\n([\s\S]*?)\n```/);
+    return match ? match[1].trimEnd() + '\n' : null;
+}
 
-            outputChannel.appendLine(`Workflow continuation completed - ${promptCommand} prompt triggered for "${selected.label}"`);
+async function writePhaseDocument(feature: string, phase: string, content: string): Promise<void> {
+    try {
+        let featureUri = await resolveFeatureUri(feature);
+        const isNewFeature = !featureUri || !(await directoryExists(featureUri));
+        if (!featureUri) {
+            const { folder, name } = splitFeatureKey(feature);
+            const root = folder ?? await pickWorkspaceFolder(`Select the workspace folder for ${feature}`);
+            if (!root) {
+                return;
+            }
+            featureUri = vscode.Uri.joinPath(getSpecsUri(root), name);
         }
 
+        const fileName = getFeatureLayout(feature).phases.find(candidate => candidate.id === phase)?.file ?? `${phase}.md`;
+        const fileUri = vscode.Uri.joinPath(featureUri, fileName);
+        const existing = await readTextFile(fileUri);
+
+        // Keep the approval front-matter so edits since approval stay visible
+        const data = existing !== null ? parseFrontMatter(existing).data : {};
+        await ensureDirectory(fileUri);
+        await vscode.workspace.fs.writeFile(fileUri, Buffer.from(serializeFrontMatter(data, content), 'utf8'));
+        specModel.invalidate(isNewFeature ? undefined : feature);
+
+        outputChannel.appendLine(`Saved ${fileName} for feature ${feature} from chat`);
+        await vscode.commands.executeCommand('vscode.open', fileUri);
     } catch (error) {
-        const errorMessage = `Error continuing workflow: ${error}`;
+        const errorMessage = `Error saving ${phase} document: ${error}`;
         outputChannel.appendLine(errorMessage);
         vscode.window.showErrorMessage(errorMessage);
     }
 }
 
+async function handleStatusCommand(stream: vscode.ChatResponseStream): Promise<CodepChatResult> {
+    const features = await findSpecFeatures();
+    if (features.length === 0) {
+        stream.markdown('No specification features found. Start one with `/requirements <feature-name> <idea>`.');
+        return { metadata: { command: 'status', feature: null } };
+    }
+
+    const headers = getFeatureLayout(features[0]).phases.map(({ id }) => id.charAt(0).toUpperCase() + id.slice(1));
+    stream.markdown(`| Feature | ${headers.join(' | ')} | Implementing |\n| --- |${' --- |'.repeat(headers.length + 1)}\n`);
+    for (const feature of features) {
+        const files = await findSpecFiles(feature);
+        const layout = getFeatureLayout(feature);
+        const cells: string[] = [];
+
+        for (const { id: phase } of layout.phases) {
+            const file = findPhaseFile(files, phase, layout);
+            if (!file) {
+                cells.push('—');
+                continue;
+            }
+            const approval = await getPhaseApproval(file);
+            let cell = approval.status === 'approved'
+                ? (approval.modifiedSinceApproval ? 'changed since approval' : 'approved')
+                : approval.status === 'changes-requested' ? 'changes requested' : 'in review';
+            if (phase === 'tasks') {
+                const tasks = await parseTasksFromFile(file);
+                cell += `, ${tasks.filter(task => task.completed).length}/${tasks.length} done`;
+            }
+            cells.push(cell);
+        }
+
+        const activeTask = getActiveTask(feature);
+        cells.push(activeTask ? `task ${activeTask.task}` : '—');
+        stream.markdown(`| ${feature} | ${cells.join(' | ')} |\n`);
+    }
+
+    return { metadata: { command: 'status', feature: null } };
+}
+
+async function handlePhaseCommand(
+    context: vscode.ExtensionContext,
+    command: string,
+    request: vscode.ChatRequest,
+    chatContext: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<CodepChatResult> {
+    // /requirements may name a feature that does not exist yet, either a slug or the only thing to go on
+    let { feature, rest } = await resolveChatFeature(request.prompt);
+    const [first = '', ...others] = request.prompt.trim().split(/\s+/);
+    if (command === 'requirements' && first && rest === request.prompt.trim() && (!feature || /^[\w]+[-_][\w-]*$/.test(first))) {
+        feature = first;
+        rest = others.join(' ');
+    }
+
+    if (!feature) {
+        stream.markdown(`Which feature? Use \`/${command} <feature-name> ...\`.`);
+        return { metadata: { command, feature: null } };
+    }
+
+    const phases = getFeatureLayout(feature).phases;
+    const phaseIndex = phases.findIndex(candidate => candidate.id === command);
+    if (phaseIndex < 0) {
+        stream.markdown(`The ${command} phase is not part of the workflow configured in \`codep.phases\`.`);
+        return { metadata: { command, feature } };
+    }
+    const phase = phases[phaseIndex];
+
+    stream.progress(`Loading the ${feature} specification...`);
+    const instructions = await readPromptInstructions(context, feature, phase.prompt);
+    const documents = await buildSpecDocumentsContext(feature, phases.slice(0, phaseIndex + 1), stream);
+    const steering = await buildSteeringContext(feature, request.prompt, stream);
+
+    const messages = [
+        vscode.LanguageModelChatMessage.User([
+            instructions,
+            `Feature name: ${splitFeatureKey(feature).name}`,
+            `## Existing specification documents\n\n${documents}`,
+            ...(steering ? [steering] : []),
+            `You are answering inside the @codep chat participant and cannot create files or call tools. ` +
+            `Reply with the complete ${phase.file} document in a single \`\`\`markdown fenced block, then ask for review. ` +
+            `The user saves the document with the button under your answer and approves it with "Code:P: Approve Phase".`
+        ].join('\n\n')),
+        ...toChatHistory(chatContext),
+        vscode.LanguageModelChatMessage.User(rest || `Write the ${phase.file} document for this feature.`)
+    ];
+
+    const text = await streamModelResponse(request, messages, stream, token);
+    const document = extractMarkdownDocument(text);
+    if (document) {
+        stream.button({
+            command: 'codep.writePhaseDocument',
+            title: `Save ${phase.file}`,
+            arguments: [feature, phase.id, document]
+        });
+    }
+
+    return { metadata: { command, feature } };
+}
+
+async function handleRunCommand(
+    context: vscode.ExtensionContext,
+    request: vscode.ChatRequest,
+    chatContext: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<CodepChatResult> {
+    const { feature, rest } = await resolveChatFeature(request.prompt);
+    if (!feature) {
+        stream.markdown('No feature with open tasks found. Use `/run <feature> <task>`.');
+        return { metadata: { command: 'run', feature: null } };
+    }
+
+    const tasksFilePath = await findTasksFile(feature);
+    const tasks = tasksFilePath ? await parseTasksFromFile(tasksFilePath) : [];
+    const [taskIdentifier = ''] = rest.split(/\s+/);
+
+    // Without an explicit task, run the next open one
+    let taskIndex: number | null;
+    if (/^\d+(?:\.\d+)*\.?$/.test(taskIdentifier)) {
+        taskIndex = await resolveTaskIndex(feature, taskIdentifier);
+    } else {
+        const nextTaskIndex = tasks.findIndex(task => !task.completed);
+        taskIndex = nextTaskIndex >= 0 ? findStartableTaskIndex(tasks, nextTaskIndex) : null;
+    }
+
+    const task = taskIndex !== null ? tasks[taskIndex] : undefined;
+    if (!task) {
+        stream.markdown(taskIdentifier ? `Task ${taskIdentifier} was not found in ${feature}.` : `All tasks of ${feature} are complete.`);
+        return { metadata: { command: 'run', feature } };
+    }
+    if (task.completed) {
+        stream.markdown(`Task ${getTaskLabel(task)} of ${feature} is already complete.`);
+        return { metadata: { command: 'run', feature } };
+    }
+
+    await startTaskAutonomously(feature, task.index, 'chat');
+    stream.progress(`Implementing task ${getTaskLabel(task)} of ${feature}...`);
+
+    const layout = getFeatureLayout(feature);
+    const instructions = await readPromptInstructions(context, feature, layout.taskPrompt);
+    const documents = await buildSpecDocumentsContext(feature, layout.phases, stream);
+    const steering = await buildSteeringContext(feature, request.prompt, stream);
+    const messages = [
+        vscode.LanguageModelChatMessage.User([
+            instructions,
+            `## Specification documents\n\n${documents}`,
+            ...(steering ? [steering] : []),
+            `Task state is managed by @codep: task ${getTaskLabel(task)} is already marked as implementing, do not call any command to start or complete it.`
+        ].join('\n\n')),
+        ...toChatHistory(chatContext),
+        vscode.LanguageModelChatMessage.User(`Execute task ${getTaskLabel(task)}: ${task.text}`)
+    ];
+
+    await streamModelResponse(request, messages, stream, token);
+
+    stream.button({
+        command: 'workbench.action.chat.open',
+        title: 'Implement in Agent Mode',
+        arguments: [`${layout.taskPrompt} Execute task ${getTaskLabel(task)} in ${splitFeatureKey(feature).name}`]
+    });
+    stream.button({
+        command: 'codep.completeTask',
+        title: 'Mark Task Complete',
+        arguments: [feature]
+    });
+
+    return { metadata: { command: 'run', feature } };
+}
+
+async function handleSpecQuestion(
+    request: vscode.ChatRequest,
+    chatContext: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+): Promise<CodepChatResult> {
+    const { feature, rest } = await resolveChatFeature(request.prompt);
+    const documents = feature ? await buildSpecDocumentsContext(feature, getFeatureLayout(feature).phases, stream) : '(no specification selected)';
+    const steering = await buildSteeringContext(feature, request.prompt, stream);
+
+    const messages = [
+        vscode.LanguageModelChatMessage.User(
+            `Answer questions about the ${feature ?? 'current'} feature specification. Do not execute tasks.\n\n## Specification documents\n\n${documents}` +
+            (steering ? `\n\n${steering}` : '')
+        ),
+        ...toChatHistory(chatContext),
+        vscode.LanguageModelChatMessage.User(rest || request.prompt)
+    ];
+
+    await streamModelResponse(request, messages, stream, token);
+    return { metadata: { command: undefined, feature } };
+}
+
+function createChatRequestHandler(context: vscode.ExtensionContext): vscode.ChatRequestHandler {
+    return async (request, chatContext, stream, token): Promise<CodepChatResult> => {
+        try {
+            outputChannel.appendLine(`CHAT REQUEST: /${request.command ?? ''} ${request.prompt.substring(0, 100)}`);
+
+            switch (request.command) {
+                case 'status':
+                    return await handleStatusCommand(stream);
+                case 'run':
+                    return await handleRunCommand(context, request, chatContext, stream, token);
+                case 'requirements':
+                case 'design':
+                case 'tasks':
+                    return await handlePhaseCommand(context, request.command, request, chatContext, stream, token);
+                default:
+                    return await handleSpecQuestion(request, chatContext, stream, token);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof vscode.LanguageModelError ? error.message : `${error}`;
+            outputChannel.appendLine(`Error handling chat request: ${errorMessage}`);
+            return {
+                errorDetails: { message: errorMessage },
+                metadata: { command: request.command, feature: null }
+            };
+        }
+    };
+}
+
 /**
  * Extension activation entry point
  */
@@ -1039,6 +5012,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         // Create output channel for logging
         outputChannel = vscode.window.createOutputChannel('Code:P');
         outputChannel.appendLine('Code:P Extension activating...');
+        hookOutputChannel = vscode.window.createOutputChannel('Code:P Hooks');
+        context.subscriptions.push(hookOutputChannel);
 
         // Create status bar item
         statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
@@ -1048,27 +5023,109 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         statusBarItem.show();
         context.subscriptions.push(statusBarItem);
 
+        // Active task state is scoped to the workspace
+        workspaceState = context.workspaceState;
+
+        // Load workflow definitions and the workflow each feature follows
+        await refreshWorkflows();
+
+        // Features are read once and then kept current from file-system events
+        specModel = new SpecModel();
+        specModel.watch();
+        context.subscriptions.push(specModel);
+
         // Create and register CodeLens provider for task interaction
         taskCodeLensProvider = new TaskCodeLensProvider();
         const codeLensDisposable = vscode.languages.registerCodeLensProvider(
-            { scheme: 'file', pattern: '**/*03-tasks.md' },
+            { scheme: 'file', language: 'markdown' },
             taskCodeLensProvider
         );
         context.subscriptions.push(codeLensDisposable);
 
+        // Lint requirements documents against the EARS syntax
+        requirementsDiagnostics = vscode.languages.createDiagnosticCollection('codep-requirements');
+        context.subscriptions.push(requirementsDiagnostics);
+        context.subscriptions.push(vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file', language: 'markdown' },
+            new RequirementsCodeActionProvider(),
+            { providedCodeActionKinds: RequirementsCodeActionProvider.providedCodeActionKinds }
+        ));
+        vscode.workspace.textDocuments.forEach(updateRequirementsDiagnostics);
+        context.subscriptions.push(
+            vscode.workspace.onDidOpenTextDocument(updateRequirementsDiagnostics),
+            vscode.workspace.onDidChangeTextDocument(event => updateRequirementsDiagnostics(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => requirementsDiagnostics.delete(document.uri))
+        );
+
+        // Check task plans against the structure the tasks prompt asks for
+        tasksDiagnostics = vscode.languages.createDiagnosticCollection('codep-tasks');
+        context.subscriptions.push(tasksDiagnostics);
+        context.subscriptions.push(vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file', language: 'markdown' },
+            new TasksCodeActionProvider(),
+            { providedCodeActionKinds: TasksCodeActionProvider.providedCodeActionKinds }
+        ));
+        vscode.workspace.textDocuments.forEach(updateTasksDiagnostics);
+        context.subscriptions.push(
+            vscode.workspace.onDidOpenTextDocument(updateTasksDiagnostics),
+            vscode.workspace.onDidChangeTextDocument(event => updateTasksDiagnostics(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => tasksDiagnostics.delete(document.uri))
+        );
+
+        // Requirement citations in design and tasks documents link back to the requirements
+        const requirementReferenceProvider = new RequirementReferenceProvider();
+        context.subscriptions.push(
+            vscode.languages.registerHoverProvider({ scheme: 'file', language: 'markdown' }, requirementReferenceProvider),
+            vscode.languages.registerDefinitionProvider({ scheme: 'file', language: 'markdown' }, requirementReferenceProvider),
+            vscode.languages.registerReferenceProvider({ scheme: 'file', language: 'markdown' }, requirementReferenceProvider)
+        );
+
+        // Register language model tools for the task lifecycle
+        context.subscriptions.push(
+            vscode.lm.registerTool('codep_getSpecContext', new SpecContextTool()),
+            vscode.lm.registerTool('codep_listTasks', new ListTasksTool()),
+            vscode.lm.registerTool('codep_startTask', new StartTaskTool()),
+            vscode.lm.registerTool('codep_completeTask', new CompleteTaskTool())
+        );
+
+        // Register the @codep chat participant
+        const chatParticipant = vscode.chat.createChatParticipant(CHAT_PARTICIPANT_ID, createChatRequestHandler(context));
+        chatParticipant.iconPath = vscode.Uri.joinPath(context.extensionUri, 'resources', 'codep.svg');
+        chatParticipant.followupProvider = {
+            provideFollowups(result: CodepChatResult) {
+                const followup = result.metadata?.command ? CHAT_FOLLOWUPS[result.metadata.command] : undefined;
+                return followup ? [followup] : [];
+            }
+        };
+        context.subscriptions.push(chatParticipant);
+
+        // Create and register the spec explorer tree view
+        specExplorerProvider = new SpecExplorerProvider();
+        const specExplorerView = vscode.window.createTreeView('codep.specExplorer', {
+            treeDataProvider: specExplorerProvider,
+            showCollapseAll: true
+        });
+        context.subscriptions.push(specExplorerView);
+
         // Register commands
         const commands = [
             vscode.commands.registerCommand('codep.injectConfig', () => injectConfig(context)),
             vscode.commands.registerCommand('codep.refreshConfig', () => injectConfig(context)), // Alias
             vscode.commands.registerCommand('codep.showSpecNavigation', showSpecNavigation),
+            vscode.commands.registerCommand('codep.previewSteering', previewSteering),
             vscode.commands.registerCommand('codep.initWorkflow', () => initWorkflow(context)),
             vscode.commands.registerCommand('codep.continueWorkflow', continueWorkflow),
-            vscode.commands.registerCommand('codep.startTask', async (feature: string, taskIndex: number) => {
-                await startTaskImplementation(feature, taskIndex);
+            vscode.commands.registerCommand('codep.startTask', async (featureOrNode: string | SpecTreeNode, task?: number | string) => {
+                // Invoked with (feature, task index or outline number like "2.1") from CodeLens, or with the task node from the spec explorer
+                if (typeof featureOrNode === 'object' && featureOrNode.kind === 'task') {
+                    await startTaskImplementation(featureOrNode.feature, featureOrNode.task.index, 'explorer');
+                } else if (typeof featureOrNode === 'string' && task !== undefined) {
+                    await startTaskImplementation(featureOrNode, task);
+                }
                 taskCodeLensProvider.refresh();
             }),
-            vscode.commands.registerCommand('codep.startTaskAutonomously', async (feature: string, taskIndex: number) => {
-                await startTaskAutonomously(feature, taskIndex);
+            vscode.commands.registerCommand('codep.startTaskAutonomously', async (feature: string, task: number | string) => {
+                await startTaskAutonomously(feature, task);
             }),
             vscode.commands.registerCommand('codep.detectTaskContext', async (chatMessage: string) => {
                 await detectAndStartTaskFromContext(chatMessage);
@@ -1076,15 +5133,36 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             vscode.commands.registerCommand('codep.getActiveSpecContext', async (): Promise<{feature: string, nextTaskIndex: number} | null> => {
                 return await getActiveSpecContext();
             }),
-            vscode.commands.registerCommand('codep.completeTask', async () => {
-                await completeTaskImplementation();
+            vscode.commands.registerCommand('codep.completeTask', async (featureOrNode?: string | Extract<SpecTreeNode, { kind: 'task' }>) => {
+                const feature = typeof featureOrNode === 'object' ? featureOrNode.feature : featureOrNode;
+                await completeTaskImplementation(feature, typeof featureOrNode === 'object' ? 'explorer' : 'command');
                 taskCodeLensProvider.refresh();
             }),
+            vscode.commands.registerCommand('codep.stopTask', async (featureOrNode?: string | Extract<SpecTreeNode, { kind: 'task' }>) => {
+                const feature = typeof featureOrNode === 'object' ? featureOrNode.feature : featureOrNode;
+                await stopTaskImplementation(feature, typeof featureOrNode === 'object' ? 'explorer' : 'command');
+            }),
+            vscode.commands.registerCommand('codep.markTaskComplete', markTaskComplete),
+            vscode.commands.registerCommand('codep.reopenTask', reopenTask),
+            vscode.commands.registerCommand('codep.resetTasks', resetTasks),
+            vscode.commands.registerCommand('codep.renameFeature', renameFeature),
+            vscode.commands.registerCommand('codep.archiveFeature', archiveFeature),
+            vscode.commands.registerCommand('codep.restoreFeature', restoreFeature),
+            vscode.commands.registerCommand('codep.abandonFeature', abandonFeature),
+            vscode.commands.registerCommand('codep.refreshSpecExplorer', () => specExplorerProvider.refresh()),
+            vscode.commands.registerCommand('codep.showTraceability', showTraceability),
+            vscode.commands.registerCommand('codep.showTaskReport', showTaskReport),
+            vscode.commands.registerCommand('codep.exportSpec', exportSpec),
+            vscode.commands.registerCommand('codep.openDashboard', () => SpecDashboardPanel.show()),
+            vscode.commands.registerCommand('codep.showTaskCommit', showTaskCommit),
+            vscode.commands.registerCommand('codep.approvePhase', approvePhase),
+            vscode.commands.registerCommand('codep.writePhaseDocument', writePhaseDocument),
+            vscode.commands.registerCommand('codep.requestPhaseChanges', requestPhaseChanges),
             vscode.commands.registerCommand('codep.showTaskProgress', async () => {
-                if (currentTaskState) {
-                    const { feature } = currentTaskState;
-                    const tasksFile = await findSpecFiles(feature);
-                    const tasksFilePath = tasksFile.find(file => file.includes('03-tasks'));
+                const activeTask = resolveActiveTask();
+                if (activeTask) {
+                    const { feature } = activeTask;
+                    const tasksFilePath = await findTasksFile(feature);
                     if (tasksFilePath) {
                         await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(tasksFilePath));
                     }
@@ -1098,34 +5176,84 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
         // Listen for document changes to update task progress
         const documentChangeListener = vscode.workspace.onDidSaveTextDocument(async (document) => {
-            if (document.fileName.includes('03-tasks.md') && isSpecFile(document.fileName)) {
-                const feature = getSpecFeature(document.fileName);
-                if (feature) {
+            if (isSpecFile(document.fileName)) {
+                await runHooks('phase-saved', { feature: getSpecFeature(document.fileName), phase: getDocumentPhase(document.fileName), document });
+            }
+            await runHooks('file-saved', { feature: isSpecFile(document.fileName) ? getSpecFeature(document.fileName) : null, document });
+
+            // The watcher reports the save as well, but reads right after a save must not see the old content
+            if (isSpecFile(document.fileName)) {
+                specModel.invalidate(getSpecFeature(document.fileName) ?? undefined);
+            }
+        });
+        context.subscriptions.push(documentChangeListener);
+
+        // Redraw views from the spec model whenever documents change, whether saved here, by an agent or by git
+        context.subscriptions.push(specModel.onDidChange(async features => {
+            specExplorerProvider.refresh();
+            taskCodeLensProvider.refresh();
+            if (taskProgress.feature && features.includes(taskProgress.feature)) {
+                await updateTaskProgress(taskProgress.feature);
+            }
+        }));
+
+        // Show the progress of the feature being edited in the status bar
+        updateSpecDocumentContext(vscode.window.activeTextEditor);
+        const activeEditorChangeListener = vscode.window.onDidChangeActiveTextEditor(async (editor) => {
+            updateSpecDocumentContext(editor);
+            if (editor && isSpecFile(editor.document.fileName)) {
+                const feature = getSpecFeature(editor.document.fileName);
+                if (feature && feature !== taskProgress.feature) {
                     await updateTaskProgress(feature);
-                    taskCodeLensProvider.refresh();
                 }
             }
         });
-        context.subscriptions.push(documentChangeListener);
+        context.subscriptions.push(activeEditorChangeListener);
+
+        // A settings change can move the specs root, so the spec model watches and reads everything anew
+        const configurationChangeListener = vscode.workspace.onDidChangeConfiguration(async event => {
+            if (event.affectsConfiguration('codep.specsRoot') || event.affectsConfiguration('codep.phases') || event.affectsConfiguration('codep.taskPrompt')) {
+                outputChannel.appendLine('Spec layout settings changed, refreshing views');
+                await refreshWorkflows();
+                specModel.watch();
+                updateSpecDocumentContext(vscode.window.activeTextEditor);
+            }
+        });
+        context.subscriptions.push(configurationChangeListener);
+
+        // Report how shell hooks ended; their output stays in the task terminal
+        context.subscriptions.push(vscode.tasks.onDidEndTaskProcess(event => {
+            const definition = event.execution.task.definition;
+            if (definition.type === HOOK_TASK_TYPE) {
+                hookOutputChannel.appendLine(`  hook "${definition.hook}" exited with code ${event.exitCode ?? 'unknown'}`);
+            }
+        }));
 
         // Listen for workspace folder changes to check for configuration updates
         const workspaceFoldersChangeListener = vscode.workspace.onDidChangeWorkspaceFolders(async () => {
             outputChannel.appendLine('Workspace folders changed, checking for configuration updates...');
+            await refreshWorkflows();
+            specModel.watch();
             // Add a small delay to ensure the workspace is fully loaded
             setTimeout(async () => {
-                if (await hasConfigurationFiles()) {
-                    await offerConfigurationRefresh(context);
+                const configuredFolders = await getConfiguredFolders();
+                if (configuredFolders.length > 0) {
+                    await offerConfigurationRefresh(context, configuredFolders);
                 }
             }, 1000);
         });
         context.subscriptions.push(workspaceFoldersChangeListener);
 
+        // Restore tasks that were being implemented before the window reloaded
+        await restoreActiveTasks();
+
         outputChannel.appendLine('Code:P Extension activated successfully');
 
         // Check for configuration updates on activation
-        if (await hasConfigurationFiles()) {
+        const configuredFolders = await getConfiguredFolders();
+        if (configuredFolders.length > 0) {
             outputChannel.appendLine('Configuration files found in workspace, checking for updates...');
-            await offerConfigurationRefresh(context);
+            await offerConfigurationRefresh(context, configuredFolders);
         } else {
             outputChannel.appendLine('No configuration files found in workspace');
         }
@@ -0,0 +1,1374 @@
+// Version: $Id:  $
+// 
+// 
+
+// Commentary:
+// 
+// Spec model independent of VS Code, shared by the extension and the codep CLI.
+// Everything here works on document contents; file access goes through SpecFileSystem.
+
+// Changelog:
+// 
+// 
+
+// 
+// Code starts here
+// /////////////////////////////////////////////////////////////////////////////
+
+// ===== TYPES AND INTERFACES =====
+
+export interface TaskItem {
+    index: number;
+    text: string;
+    completed: boolean;
+    line: number;
+    number: string | null;      // Outline number as written in the document (e.g. "2.1")
+    parent: number | null;      // Index of the parent task, if any
+    children: number[];         // Indices of direct sub-tasks
+    requirements: string[];     // Requirement references ("1", "2.3") cited by the task or its details
+    commit: string | null;      // Short SHA recorded when the task was committed, e.g. "(commit 1a2b3c4)"
+    verify: string | null;      // Verification command from a "verify: <command>" detail bullet
+}
+
+export interface TaskPlanIssue {
+    code: 'task-number' | 'task-numbering' | 'task-nesting' | 'task-checkbox' | 'task-requirements';
+    message: string;
+    line: number;               // 0-based
+}
+
+export type EarsPattern = 'ubiquitous' | 'event-driven' | 'state-driven' | 'unwanted-behaviour' | 'optional-feature';
+
+export interface AcceptanceCriterion {
+    id: string;                 // "<requirement>.<criterion>", e.g. "2.3"
+    text: string;
+    line: number;
+}
+
+export interface RequirementItem {
+    id: string;
+    title: string;
+    userStory: string | null;
+    userStoryLine: number | null;
+    line: number;
+    criteria: AcceptanceCriterion[];
+}
+
+export interface RequirementReference {
+    id: string;                 // Cited requirement or criterion, e.g. "1" or "1.2"
+    line: number;
+    start: number;              // Column range of the id within the line
+    end: number;
+}
+
+export interface RequirementCoverage {
+    requirement: RequirementItem;
+    tasks: TaskItem[];
+    completedTasks: number;
+}
+
+export interface TraceabilityReport {
+    feature: string;
+    coverage: RequirementCoverage[];
+    uncoveredCriteria: AcceptanceCriterion[];
+    danglingReferences: { task: TaskItem; reference: string }[];
+}
+
+export type ApprovalStatus = 'approved' | 'changes-requested' | 'pending';
+
+export interface PhaseApproval {
+    status: ApprovalStatus;
+    approver: string | null;
+    approvedAt: string | null;
+    reviewer: string | null;
+    comment: string | null;
+    modifiedSinceApproval: boolean;
+}
+
+/**
+ * Minimal file access, implemented over vscode.workspace.fs by the extension and over Node's fs by the CLI
+ */
+export interface SpecFileSystem {
+    readFile(path: string): Promise<string>;
+    readDirectory(path: string): Promise<{ name: string; isDirectory: boolean }[]>;
+    exists(path: string): Promise<boolean>;
+}
+
+export interface SpecDocument {
+    path: string;
+    phase: string | null;       // Phase id, e.g. "requirements"
+    content: string;
+}
+
+export interface SpecPhaseDefinition {
+    id: string;                 // "requirements", "design" and "tasks" have built-in support, other phases are plain documents
+    file: string;               // Document name inside the feature directory, e.g. "01-requirements.md"
+    prompt: string;             // Chat prompt that writes the document, e.g. "/spec01"
+    approval?: boolean;         // Whether the phase must be approved before the next one starts (default true)
+    sections?: string[];        // Headings the document must contain to be complete
+}
+
+export interface SpecLayout {
+    specsRoot: string;          // Workspace-relative directory with one directory per feature
+    workflow: string;           // Name of the workflow the phases come from
+    phases: SpecPhaseDefinition[];  // In workflow order
+    taskPrompt: string;         // Chat prompt that implements a task, e.g. "/spec04"
+}
+
+export interface SpecWorkflow {
+    name: string;
+    description: string;
+    phases: SpecPhaseDefinition[];
+    taskPrompt: string;
+}
+
+export interface SpecWorkflowDefinitions {
+    defaultWorkflow: string;
+    workflows: SpecWorkflow[];
+    errors: string[];           // Problems found in the definition file; broken workflows are left out
+}
+
+export interface SpecPhaseState {
+    phase: string;              // Phase id, e.g. "design"
+    file: string;
+    document: SpecDocument | null;
+    approval: PhaseApproval | null;
+    approvalRequired: boolean;
+    missingSections: string[];
+}
+
+export interface FeatureSettings {
+    workflow: string | null;
+    abandoned: { reason: string; date: string | null } | null;
+}
+
+export interface SpecFeature {
+    name: string;
+    workflow: string;
+    abandoned: FeatureSettings['abandoned'];
+    directory: string;
+    documents: SpecDocument[];
+    phases: SpecPhaseState[];
+    requirements: RequirementItem[];
+    tasks: TaskItem[];
+}
+
+export interface SteeringInclusion {
+    mode: 'always' | 'fileMatch' | 'manual';
+    pattern: string | null;     // fileMatch: glob relative to the workspace folder
+}
+
+export interface SpecIssue {
+    kind: 'malformed' | 'incomplete';
+    message: string;
+    path?: string;
+    line?: number;              // 0-based
+}
+
+// ===== FRONT MATTER =====
+
+// Front-matter parser for web compatibility: the YAML subset of parseYaml with scalars kept as text,
+// so hashes, dates and names compare as written
+export function parseFrontMatter(content: string): { content: string; data: any; } {
+    const frontMatterRegex = /^\uFEFF?---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+    const match = content.match(frontMatterRegex);
+
+    if (!match) {
+        return { content, data: {} };
+    }
+
+    const yamlContent = match[1] ?? '';
+    const remainingContent = content.slice(match[0].length);
+
+    let data: any;
+    try {
+        const parsed = parseYaml(yamlContent, 'text');
+        data = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+        // Not valid YAML: fall back to one "key: value" pair per line
+        data = {};
+        for (const line of yamlContent.split('\n')) {
+            const colonIndex = line.indexOf(':');
+            if (colonIndex > 0) {
+                data[line.slice(0, colonIndex).trim()] = line.slice(colonIndex + 1).trim().replace(/^["']|["']$/g, '');
+            }
+        }
+    }
+
+    return { content: remainingContent, data };
+}
+
+function serializeFrontMatterValue(value: string): string {
+    const singleLine = value.replace(/\r?\n/g, ' ');
+    return /[:#'"\[\]{},]|^\s|\s$|^[-*&!|>%@`]/.test(singleLine) ? JSON.stringify(singleLine) : singleLine;
+}
+
+export function serializeFrontMatter(data: Record<string, string | string[]>, content: string): string {
+    const entries = Object.entries(data).filter(([, value]) => value !== undefined && value !== '');
+    if (entries.length === 0) {
+        return content;
+    }
+
+    const lines = entries.map(([key, value]) => Array.isArray(value)
+        ? `${key}: [${value.map(item => serializeFrontMatterValue(String(item))).join(', ')}]`
+        : `${key}: ${serializeFrontMatterValue(String(value))}`);
+    return `---\n${lines.join('\n')}\n---\n${content}`;
+}
+
+/**
+ * Whether a slash-separated relative path matches a glob with *, **, ? and {a,b} alternatives
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // "**/" spans any number of directories, including none
+            source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += pattern[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            braces++;
+            source += '(?:';
+        } else if (char === '}' && braces > 0) {
+            braces--;
+            source += ')';
+        } else if (char === ',' && braces > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`).test(path.replace(/\\/g, '/').replace(/^\.\//, ''));
+}
+
+/**
+ * FNV-1a hash of a document body, ignoring line endings and trailing whitespace.
+ * Not cryptographic: it only detects edits made after a phase was approved
+ */
+export function hashContent(content: string): string {
+    const normalized = content.replace(/\r\n/g, '\n').trimEnd();
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < normalized.length; i++) {
+        hash ^= normalized.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+}
+
+// ===== TASKS =====
+
+export const TASK_COMMIT_PATTERN = /\s*\(commit ([0-9a-f]{7,40})\)\s*$/;
+const TASK_VERIFY_PATTERN = /^\s+(?:[-*]\s+)?_?verify\s*:\s*(.+?)_?\s*$/i;
+// Any list item with a checkbox, including spellings such as "* [X]", "-[x]" or "- [ x ]"
+// Tasks are written "- [ ] 2.1 Text" or "- [x] 2.1 Text"
+const TASK_LINE_PATTERN = /^(\s*)-\s*\[([xX ])\]\s*(.+)$/;
+const TASK_NUMBER_PATTERN = /^(\d+(?:\.\d+)*)\.?\s/;
+const TASK_CHECKBOX_VARIANT_PATTERN = /^([ \t]*)[-*+][ \t]*\[([ \t]*[xX]?[ \t]*)\]/;
+
+/**
+ * Whether each line belongs to a fenced code block, fences included: checklists in code samples are not tasks
+ */
+function findFencedLines(lines: string[]): boolean[] {
+    let fence: string | null = null;
+    return lines.map(line => {
+        const match = line.match(/^\s*(`{3,}|~{3,})(.*)$/);
+        if (fence === null) {
+            fence = match ? match[1] : null;
+            return !!match;
+        }
+        // The closing fence repeats the opening character at least as often and has no info string
+        if (match && match[1][0] === fence[0] && match[1].length >= fence.length && !match[2].trim()) {
+            fence = null;
+        }
+        return true;
+    });
+}
+
+export function parseTasksFromContent(content: string): TaskItem[] {
+    const lines = content.split('\n');
+    const fenced = findFencedLines(lines);
+    const tasks: TaskItem[] = [];
+    const indentStack: { indent: number; index: number }[] = [];
+    // Task whose detail lines follow, until a heading or a line that is not indented under it
+    let detailsOf: { task: TaskItem; indent: number } | null = null;
+    // In a numbered plan unnumbered checkboxes are checklists (notes, review items), not tasks;
+    // a plan without any numbers keeps every checkbox as a task
+    const numbered = lines.some((line, lineIndex) => !fenced[lineIndex] && TASK_NUMBER_PATTERN.test(line.match(TASK_LINE_PATTERN)?.[3] ?? ''));
+
+    lines.forEach((line, lineIndex) => {
+        if (fenced[lineIndex]) {
+            return;
+        }
+
+        // Match tasks in format: - [ ] or - [x] (also [X]) with optional numbering
+        const taskMatch = line.match(TASK_LINE_PATTERN);
+        if (!taskMatch || (numbered && !TASK_NUMBER_PATTERN.test(taskMatch[3]))) {
+            // Requirement references and the verification command in detail bullets belong to the task above
+            const lineIndent = line.replace(/\t/g, '    ').search(/\S/);
+            if (detailsOf && (/^\s*#/.test(line) || (lineIndent >= 0 && lineIndent <= detailsOf.indent))) {
+                detailsOf = null;
+            }
+            if (detailsOf) {
+                const { task } = detailsOf;
+                task.requirements.push(...parseRequirementReferences(line));
+                const verifyMatch = line.match(TASK_VERIFY_PATTERN);
+                if (verifyMatch) {
+                    task.verify = verifyMatch[1].replace(/^`(.*)`$/, '$1').trim() || null;
+                }
+            }
+            return;
+        }
+
+        const indent = taskMatch[1].replace(/\t/g, '    ').length;
+        const commitMatch = taskMatch[3].match(TASK_COMMIT_PATTERN);
+        const text = taskMatch[3].replace(TASK_COMMIT_PATTERN, '').trim();
+        const numberMatch = text.match(TASK_NUMBER_PATTERN);
+        const number = numberMatch ? numberMatch[1] : null;
+
+        // Parent is the nearest less-indented task, falling back to the outline number (1.2 -> 1)
+        while (indentStack.length > 0 && indentStack[indentStack.length - 1].indent >= indent) {
+            indentStack.pop();
+        }
+        let parent: number | null = indentStack.length > 0 ? indentStack[indentStack.length - 1].index : null;
+        if (parent === null && number && number.includes('.')) {
+            const parentNumber = number.slice(0, number.lastIndexOf('.'));
+            const parentTask = tasks.find(task => task.number === parentNumber);
+            parent = parentTask ? parentTask.index : null;
+        }
+
+        const task: TaskItem = {
+            index: tasks.length,
+            text,
+            completed: taskMatch[2] !== ' ',
+            line: lineIndex,
+            number,
+            parent,
+            children: [],
+            requirements: parseRequirementReferences(text),
+            commit: commitMatch ? commitMatch[1] : null,
+            verify: null
+        };
+        if (parent !== null) {
+            tasks[parent].children.push(task.index);
+        }
+        tasks.push(task);
+        indentStack.push({ indent, index: task.index });
+        detailsOf = { task, indent };
+    });
+
+    return tasks;
+}
+
+/**
+ * Extract requirement references from a line such as "_Requirements: 1.2, 3.1_"
+ */
+export function parseRequirementReferences(line: string): string[] {
+    return findRequirementReferences(line).map(reference => reference.id);
+}
+
+/**
+ * Requirement references of a document with their positions
+ */
+export function findRequirementReferences(content: string): RequirementReference[] {
+    const references: RequirementReference[] = [];
+    content.split('\n').forEach((line, lineIndex) => {
+        const match = line.match(/Requirements?\s*:\s*(.+?)(\s*)$/i);
+        if (!match) {
+            return;
+        }
+        const offset = line.length - match[2].length - match[1].length;
+        for (const id of match[1].matchAll(/(\d+(?:\.\d+)*)(?:\s*[-\u2013]\s*(\d+(?:\.\d+)*))?/g)) {
+            const start = offset + id.index!;
+            references.push({ id: id[1], line: lineIndex, start, end: start + id[1].length });
+            if (id[2]) {
+                // A range "1.2-1.4" cites its ends where they are written and the ids between on the whole range
+                const last = start + id[0].length - id[2].length;
+                references.push({ id: id[2], line: lineIndex, start: last, end: last + id[2].length });
+                references.push(...expandRequirementRange(id[1], id[2]).map(between => ({ id: between, line: lineIndex, start, end: start + id[0].length })));
+            }
+        }
+    });
+    return references;
+}
+
+/**
+ * Ids strictly between the ends of a range of siblings, "2.1" to "2.4" giving 2.2 and 2.3
+ */
+function expandRequirementRange(from: string, to: string): string[] {
+    const first = from.split('.');
+    const last = to.split('.');
+    if (first.length !== last.length || first.slice(0, -1).join('.') !== last.slice(0, -1).join('.')) {
+        return [];
+    }
+
+    const prefix = first.slice(0, -1).map(part => `${part}.`).join('');
+    const ids: string[] = [];
+    for (let n = Number(first[first.length - 1]) + 1; n < Number(last[last.length - 1]) && ids.length < 100; n++) {
+        ids.push(`${prefix}${n}`);
+    }
+    return ids;
+}
+
+/**
+ * Human-facing task identifier: the outline number when the plan has one, the 1-based position otherwise
+ */
+export function getTaskLabel(task: TaskItem): string {
+    return task.number ?? String(task.index + 1);
+}
+
+/**
+ * Resolve a task identifier to its index. Numbers are 0-based indices, strings are
+ * outline numbers as written in the document ("2", "2.1"), falling back to 1-based positions
+ */
+export function findTaskIndex(tasks: TaskItem[], identifier: number | string): number | null {
+    if (typeof identifier === 'number') {
+        return tasks[identifier] ? identifier : null;
+    }
+
+    const normalized = identifier.trim().replace(/\.$/, '');
+    const byNumber = tasks.find(task => task.number === normalized);
+    if (byNumber) {
+        return byNumber.index;
+    }
+
+    if (/^\d+$/.test(normalized) && tasks.every(task => task.number === null)) {
+        const position = parseInt(normalized) - 1;
+        return tasks[position] ? position : null;
+    }
+
+    return null;
+}
+
+/**
+ * Starting a parent task starts its first open sub-task instead
+ */
+export function findStartableTaskIndex(tasks: TaskItem[], taskIndex: number): number {
+    let task = tasks[taskIndex];
+    while (task && task.children.length > 0) {
+        const nextChild = task.children.map(index => tasks[index]).find(child => !child.completed);
+        if (!nextChild) {
+            break;
+        }
+        task = nextChild;
+    }
+    return task ? task.index : taskIndex;
+}
+
+/**
+ * A checkbox line with its checkbox written as "- [ ]" or "- [x]", or null when the line has no checkbox
+ */
+export function normalizeTaskCheckbox(line: string): string | null {
+    const match = line.match(TASK_CHECKBOX_VARIANT_PATTERN);
+    if (!match) {
+        return null;
+    }
+    const rest = line.slice(match[0].length);
+    const checkbox = `${match[1]}- [${match[2].trim() ? 'x' : ' '}]`;
+    return rest && !/^\s/.test(rest) ? `${checkbox} ${rest}` : checkbox + rest;
+}
+
+/**
+ * Outline numbers the plan should have: top-level tasks counted from 1, sub-tasks numbered
+ * after their parent (2.1, 2.2)
+ */
+export function getExpectedTaskNumbers(tasks: TaskItem[]): string[] {
+    const numbers: string[] = [];
+    let topLevel = 0;
+    for (const task of tasks) {
+        numbers.push(task.parent === null
+            ? String(++topLevel)
+            : `${numbers[task.parent]}.${tasks[task.parent].children.indexOf(task.index) + 1}`);
+    }
+    return numbers;
+}
+
+/**
+ * Structural rules of a task plan: numbered "- [ ]" items, at most two levels, sequential
+ * decimal numbering and a requirements reference on each leaf task
+ */
+export function lintTaskPlan(content: string, requireReferences = true): TaskPlanIssue[] {
+    const issues: TaskPlanIssue[] = [];
+    const tasks = parseTasksFromContent(content);
+    const expected = getExpectedTaskNumbers(tasks);
+
+    const lines = content.split('\n');
+    const fenced = findFencedLines(lines);
+    const taskLines = new Set(tasks.map(task => task.line));
+    lines.forEach((line, lineIndex) => {
+        const normalized = fenced[lineIndex] ? null : normalizeTaskCheckbox(line);
+        if (normalized !== null && normalized !== line) {
+            issues.push({ code: 'task-checkbox', message: 'Write task checkboxes as "- [ ]" or "- [x]"', line: lineIndex });
+        }
+        if (!fenced[lineIndex] && !taskLines.has(lineIndex) && TASK_LINE_PATTERN.test(line)) {
+            issues.push({ code: 'task-number', message: 'Checkbox without a number is not counted as a task', line: lineIndex });
+        }
+    });
+
+    const seen = new Set<string>();
+    for (const task of tasks) {
+        const label = getTaskLabel(task);
+        const parent = task.parent !== null ? tasks[task.parent] : null;
+        if ((parent && parent.parent !== null) || (task.number && task.number.split('.').length > 2)) {
+            issues.push({ code: 'task-nesting', message: `Task ${label} is nested deeper than two levels`, line: task.line });
+        }
+
+        if (task.number === null) {
+            issues.push({ code: 'task-number', message: `Task has no number, expected ${expected[task.index]}`, line: task.line });
+        } else if (seen.has(task.number)) {
+            issues.push({ code: 'task-numbering', message: `Duplicate task number ${task.number}, expected ${expected[task.index]}`, line: task.line });
+        } else if (task.number !== expected[task.index]) {
+            issues.push({ code: 'task-numbering', message: `Task ${task.number} is out of sequence, expected ${expected[task.index]}`, line: task.line });
+        }
+        if (task.number !== null) {
+            seen.add(task.number);
+        }
+
+        if (requireReferences && task.children.length === 0 && task.requirements.length === 0) {
+            issues.push({ code: 'task-requirements', message: `Task ${label} references no requirements`, line: task.line });
+        }
+    }
+
+    return issues.sort((a, b) => a.line - b.line);
+}
+
+// ===== REQUIREMENTS =====
+
+/**
+ * Parse the numbered requirements of a 01-requirements.md document. Requirements are headings
+ * ("### Requirement 2" or "### 2. Title") followed by a user story and a numbered list of
+ * acceptance criteria, which are identified as "<requirement>.<criterion>"
+ */
+export function parseRequirementsFromContent(content: string): RequirementItem[] {
+    const lines = content.split('\n');
+    const requirements: RequirementItem[] = [];
+    let current: RequirementItem | null = null;
+
+    lines.forEach((line, lineIndex) => {
+        const headingMatch = line.match(/^#{2,6}\s+(?:Requirement\s+(\d+)\s*[:.\-]?\s*(.*)|(\d+)\.\s+(.+))$/i);
+        if (headingMatch) {
+            current = {
+                id: headingMatch[1] ?? headingMatch[3],
+                title: (headingMatch[2] ?? headingMatch[4] ?? '').trim(),
+                userStory: null,
+                userStoryLine: null,
+                line: lineIndex,
+                criteria: []
+            };
+            requirements.push(current);
+            return;
+        }
+
+        if (!current) {
+            return;
+        }
+
+        // Any other heading at requirement level or above ends the requirement
+        if (/^#{1,3}\s/.test(line) && !/acceptance criteria/i.test(line)) {
+            current = null;
+            return;
+        }
+
+        const storyMatch = line.match(/User Story:?\**:?\s*(.+)$/i);
+        if (storyMatch && !current.userStory) {
+            current.userStory = storyMatch[1].trim();
+            current.userStoryLine = lineIndex;
+            return;
+        }
+
+        const criterionMatch = line.match(/^\s*(\d+)\.\s+(.+)$/);
+        if (criterionMatch) {
+            current.criteria.push({
+                id: `${current.id}.${criterionMatch[1]}`,
+                text: criterionMatch[2].trim(),
+                line: lineIndex
+            });
+        }
+    });
+
+    return requirements;
+}
+
+/**
+ * A reference covers a criterion when it names it exactly or names its whole requirement
+ */
+export function referenceCovers(reference: string, requirementId: string, criterionId?: string): boolean {
+    return reference === requirementId || (criterionId !== undefined && reference === criterionId);
+}
+
+/**
+ * The requirement, and criterion when the id names one, that a reference points to
+ */
+export function findRequirementDefinition(requirements: RequirementItem[], id: string): { requirement: RequirementItem; criterion: AcceptanceCriterion | null } | null {
+    const requirement = requirements.find(candidate => candidate.id === id.split('.')[0]);
+    if (!requirement) {
+        return null;
+    }
+    if (requirement.id === id) {
+        return { requirement, criterion: null };
+    }
+    const criterion = requirement.criteria.find(candidate => candidate.id === id);
+    return criterion ? { requirement, criterion } : null;
+}
+
+export function buildTraceabilityReport(feature: string, requirements: RequirementItem[], tasks: TaskItem[]): TraceabilityReport {
+    const coverage = requirements.map(requirement => {
+        const citingTasks = tasks.filter(task => task.requirements.some(reference =>
+            referenceCovers(reference, requirement.id) ||
+            requirement.criteria.some(criterion => referenceCovers(reference, requirement.id, criterion.id))
+        ));
+        return {
+            requirement,
+            tasks: citingTasks,
+            completedTasks: citingTasks.filter(task => task.completed).length
+        };
+    });
+
+    const uncoveredCriteria = requirements.flatMap(requirement => requirement.criteria.filter(criterion =>
+        !tasks.some(task => task.requirements.some(reference => referenceCovers(reference, requirement.id, criterion.id)))
+    ));
+
+    const knownIds = new Set(requirements.flatMap(requirement => [requirement.id, ...requirement.criteria.map(criterion => criterion.id)]));
+    const danglingReferences = tasks.flatMap(task => task.requirements
+        .filter(reference => !knownIds.has(reference))
+        .map(reference => ({ task, reference })));
+
+    return { feature, coverage, uncoveredCriteria, danglingReferences };
+}
+
+// ===== EARS =====
+
+const EARS_PATTERNS: [EarsPattern, RegExp][] = [
+    ['event-driven', /^when\s+.+?\s+shall\s+.+/i],
+    ['state-driven', /^while\s+.+?\s+shall\s+.+/i],
+    ['unwanted-behaviour', /^if\s+.+?\s+then\s+.+?\s+shall\s+.+/i],
+    ['optional-feature', /^where\s+.+?\s+shall\s+.+/i],
+    ['ubiquitous', /^the\s+.+?\s+shall\s+.+/i]
+];
+
+const USER_STORY_PATTERN = /^As an?\s+.+?,?\s+I want\s+.+?,?\s+so that\s+.+/i;
+
+/**
+ * Criterion text without markdown emphasis, as matched against the EARS patterns
+ */
+export function normalizeCriterion(text: string): string {
+    return text.replace(/[*_`]/g, '').trim();
+}
+
+/**
+ * The EARS pattern an acceptance criterion follows, or null when it follows none
+ */
+export function classifyEarsCriterion(text: string): EarsPattern | null {
+    const normalized = normalizeCriterion(text);
+    return EARS_PATTERNS.find(([, pattern]) => pattern.test(normalized))?.[0] ?? null;
+}
+
+/**
+ * Uppercase the leading EARS keyword plus THEN and SHALL; "when" or "where" later in the
+ * sentence is ordinary prose
+ */
+export function uppercaseEarsKeywords(text: string): string {
+    return text
+        .replace(/^(when|while|if|where)\b/i, keyword => keyword.toUpperCase())
+        .replace(/\b(then|shall)\b/gi, keyword => keyword.toUpperCase());
+}
+
+/**
+ * Whether a user story reads "As a [role], I want [feature], so that [benefit]"
+ */
+export function isUserStory(text: string): boolean {
+    return USER_STORY_PATTERN.test(normalizeCriterion(text));
+}
+
+// ===== PHASES AND APPROVAL =====
+
+export const DEFAULT_SPEC_LAYOUT: SpecLayout = {
+    specsRoot: '.github/specs',
+    workflow: 'default',
+    phases: [
+        { id: 'requirements', file: '01-requirements.md', prompt: '/spec01' },
+        { id: 'design', file: '02-design.md', prompt: '/spec02' },
+        { id: 'tasks', file: '03-tasks.md', prompt: '/spec03' }
+    ],
+    taskPrompt: '/spec04'
+};
+
+/**
+ * Layout from the codep.specsRoot, codep.phases and codep.taskPrompt settings, falling back
+ * to the defaults for anything missing or invalid
+ */
+export function resolveSpecLayout(settings: { specsRoot?: unknown; phases?: unknown; taskPrompt?: unknown }): SpecLayout {
+    const specsRoot = typeof settings.specsRoot === 'string' && settings.specsRoot.trim()
+        ? settings.specsRoot.trim().replace(/\\/g, '/').replace(/^\.?\/+|\/+$/g, '')
+        : DEFAULT_SPEC_LAYOUT.specsRoot;
+
+    const phases = parsePhaseDefinitions(settings.phases);
+
+    return {
+        specsRoot,
+        workflow: DEFAULT_SPEC_LAYOUT.workflow,
+        phases: phases.length > 0 ? phases : DEFAULT_SPEC_LAYOUT.phases,
+        taskPrompt: typeof settings.taskPrompt === 'string' && settings.taskPrompt ? settings.taskPrompt : DEFAULT_SPEC_LAYOUT.taskPrompt
+    };
+}
+
+/**
+ * Phase definitions from settings or a workflow file, skipping entries without an id or file
+ */
+function parsePhaseDefinitions(value: unknown): SpecPhaseDefinition[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    return value
+        .filter((phase): phase is Record<string, unknown> => typeof phase === 'object' && phase !== null)
+        .filter(phase => typeof phase.id === 'string' && typeof phase.file === 'string' && phase.id && phase.file)
+        .map(phase => ({
+            id: phase.id as string,
+            file: phase.file as string,
+            prompt: typeof phase.prompt === 'string' ? phase.prompt : '',
+            approval: phase.approval !== false,
+            sections: Array.isArray(phase.sections) ? phase.sections.map(String) : []
+        }));
+}
+
+function getFileName(filePath: string): string {
+    return filePath.split(/[\/\\]/).pop() || '';
+}
+
+/**
+ * Phase id of a spec document, e.g. "requirements" for 01-requirements.md
+ */
+export function getSpecPhase(filePath: string, layout: SpecLayout = DEFAULT_SPEC_LAYOUT): string | null {
+    const fileName = getFileName(filePath);
+    const phase = layout.phases.find(candidate => candidate.file === fileName);
+    if (phase) {
+        return phase.id;
+    }
+    const match = fileName.match(/^\d{2}-(.+)\.md$/);
+    return match ? match[1] : null;
+}
+
+export function findPhaseFile(files: string[], phase: string, layout: SpecLayout = DEFAULT_SPEC_LAYOUT): string | undefined {
+    const definition = layout.phases.find(candidate => candidate.id === phase);
+    // Older plans were written to 03-plan.md
+    return (definition ? files.find(file => getFileName(file) === definition.file) : undefined) ??
+        (phase === 'tasks' ? files.find(file => getFileName(file) === '03-plan.md') : undefined);
+}
+
+export function getApprovalFromContent(text: string): PhaseApproval {
+    const { content, data } = parseFrontMatter(text);
+    const status: ApprovalStatus = data.approval === 'approved' || data.approval === 'changes-requested'
+        ? data.approval
+        : 'pending';
+
+    return {
+        status,
+        approver: data.approver || null,
+        approvedAt: data.approvedAt || null,
+        reviewer: data.reviewer || null,
+        comment: data.comment || null,
+        modifiedSinceApproval: status === 'approved' && data.contentHash !== hashContent(content)
+    };
+}
+
+// ===== WORKFLOWS =====
+
+export const WORKFLOW_DEFINITION_FILE = '.github/codep/workflow.yml';
+export const FEATURE_SETTINGS_FILE = 'feature.yml';
+
+function stripYamlComment(line: string): string {
+    return line.replace(/("(?:\\.|[^"\\])*"|'[^']*')|(?:^|\s+)#.*$/g, (match, quoted) => quoted ?? '');
+}
+
+function parseYamlScalar(value: string, scalars: 'typed' | 'text' = 'typed'): unknown {
+    if (/^".*"$/.test(value)) {
+        return JSON.parse(value);
+    }
+    if (/^'.*'$/.test(value)) {
+        return value.slice(1, -1).replace(/''/g, "'");
+    }
+    if (/^\[.*\]$/.test(value)) {
+        const items = value.slice(1, -1).trim();
+        return items ? items.split(',').map(item => parseYamlScalar(item.trim(), scalars)) : [];
+    }
+    if (scalars === 'text') {
+        return value;
+    }
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    if (value === 'null' || value === '~') {
+        return null;
+    }
+    return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+}
+
+/**
+ * Parse the YAML subset of workflow files and front-matter: nested mappings, block and flow sequences,
+ * scalars and comments. Anchors, multi-line strings and flow mappings are not supported. With "text"
+ * scalars, unquoted values stay strings instead of becoming numbers, booleans or null
+ */
+export function parseYaml(content: string, scalars: 'typed' | 'text' = 'typed'): unknown {
+    const lines = content.split(/\r?\n/)
+        .map((text, number) => ({ number, indent: text.search(/\S/), text: stripYamlComment(text).trim() }))
+        .filter(line => line.indent >= 0 && line.text && line.text !== '---');
+    let position = 0;
+
+    const isItem = (text: string) => text === '-' || text.startsWith('- ');
+
+    const parseBlock = (indent: number): unknown => {
+        if (isItem(lines[position].text)) {
+            const items: unknown[] = [];
+            while (position < lines.length && lines[position].indent === indent && isItem(lines[position].text)) {
+                const line = lines[position];
+                const rest = line.text.slice(1).trim();
+                if (!rest) {
+                    position++;
+                    items.push(position < lines.length && lines[position].indent > indent ? parseBlock(lines[position].indent) : null);
+                } else if (/^[^'"\[{][^:]*:(\s|$)/.test(rest)) {
+                    // "- key: value" opens a mapping aligned with its first key
+                    lines[position] = { ...line, indent: indent + line.text.length - rest.length, text: rest };
+                    items.push(parseBlock(lines[position].indent));
+                } else {
+                    position++;
+                    items.push(parseYamlScalar(rest, scalars));
+                }
+            }
+            return items;
+        }
+
+        const mapping: Record<string, unknown> = {};
+        while (position < lines.length && lines[position].indent === indent && !isItem(lines[position].text)) {
+            const line = lines[position];
+            const match = line.text.match(/^("[^"]*"|'[^']*'|[^:]+):(?:\s+(.*))?$/);
+            if (!match) {
+                throw new Error(`line ${line.number + 1}: expected "key: value"`);
+            }
+            position++;
+
+            const key = String(parseYamlScalar(match[1].trim(), 'text'));
+            if (match[2]) {
+                mapping[key] = parseYamlScalar(match[2], scalars);
+            } else if (position < lines.length && (lines[position].indent > indent ||
+                (lines[position].indent === indent && isItem(lines[position].text)))) {
+                mapping[key] = parseBlock(lines[position].indent);
+            } else {
+                mapping[key] = null;
+            }
+        }
+        return mapping;
+    };
+
+    if (lines.length === 0) {
+        return null;
+    }
+    const result = parseBlock(lines[0].indent);
+    if (position < lines.length) {
+        throw new Error(`line ${lines[position].number + 1}: unexpected indentation`);
+    }
+    return result;
+}
+
+/**
+ * The single workflow implied by the codep.phases and codep.taskPrompt settings
+ */
+export function getDefaultWorkflow(layout: SpecLayout): SpecWorkflow {
+    return { name: DEFAULT_SPEC_LAYOUT.workflow, description: 'Phases from the codep.phases setting', phases: layout.phases, taskPrompt: layout.taskPrompt };
+}
+
+/**
+ * Named workflows of a workflow definition file. Workflows without valid phases are reported and
+ * left out; without any valid workflow the settings' phases are used
+ */
+export function parseWorkflowDefinitions(content: string, layout: SpecLayout): SpecWorkflowDefinitions {
+    const errors: string[] = [];
+    const workflows: SpecWorkflow[] = [];
+    let defaultWorkflow: unknown;
+
+    try {
+        const data = parseYaml(content) as Record<string, unknown> | null;
+        const entries = data && typeof data.workflows === 'object' && data.workflows !== null && !Array.isArray(data.workflows)
+            ? Object.entries(data.workflows as Record<string, unknown>)
+            : [];
+        if (entries.length === 0) {
+            errors.push('No workflows defined under "workflows:"');
+        }
+        defaultWorkflow = data?.default;
+
+        for (const [name, value] of entries) {
+            const definition = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+            const phases = parsePhaseDefinitions(definition.phases);
+            if (phases.length === 0) {
+                errors.push(`Workflow "${name}" has no phases with an id and a file`);
+                continue;
+            }
+            const ids = phases.map(phase => phase.id);
+            const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+            if (duplicate) {
+                errors.push(`Workflow "${name}" declares phase "${duplicate}" twice`);
+                continue;
+            }
+            workflows.push({
+                name,
+                description: typeof definition.description === 'string' ? definition.description : '',
+                phases,
+                taskPrompt: typeof definition.taskPrompt === 'string' && definition.taskPrompt ? definition.taskPrompt : layout.taskPrompt
+            });
+        }
+    } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    if (workflows.length === 0) {
+        workflows.push(getDefaultWorkflow(layout));
+    }
+    if (defaultWorkflow !== undefined && !workflows.some(workflow => workflow.name === defaultWorkflow)) {
+        errors.push(`Default workflow "${defaultWorkflow}" is not defined`);
+    }
+
+    return {
+        defaultWorkflow: workflows.find(workflow => workflow.name === defaultWorkflow)?.name ?? workflows[0].name,
+        workflows,
+        errors
+    };
+}
+
+/**
+ * Workflows of a repository root, or the settings' phases when it has no definition file
+ */
+export async function readWorkflowDefinitions(fileSystem: SpecFileSystem, root: string, layout: SpecLayout): Promise<SpecWorkflowDefinitions> {
+    const path = joinSpecPath(root, WORKFLOW_DEFINITION_FILE);
+    if (!(await fileSystem.exists(path))) {
+        return { defaultWorkflow: DEFAULT_SPEC_LAYOUT.workflow, workflows: [getDefaultWorkflow(layout)], errors: [] };
+    }
+    return parseWorkflowDefinitions(await fileSystem.readFile(path), layout);
+}
+
+/**
+ * The settings of a feature directory's feature.yml: the workflow it selects and whether it was
+ * abandoned ("status: abandoned" with a reason and date)
+ */
+export async function readFeatureSettings(fileSystem: SpecFileSystem, directory: string): Promise<FeatureSettings> {
+    const path = joinSpecPath(directory, FEATURE_SETTINGS_FILE);
+    if (!(await fileSystem.exists(path))) {
+        return { workflow: null, abandoned: null };
+    }
+    try {
+        const data = parseYaml(await fileSystem.readFile(path), 'text') as Record<string, unknown> | null;
+        const text = (value: unknown) => typeof value === 'string' ? value : null;
+        return {
+            workflow: text(data?.workflow),
+            abandoned: data?.status === 'abandoned' ? { reason: text(data.reason) ?? '', date: text(data.abandonedAt) } : null
+        };
+    } catch {
+        return { workflow: null, abandoned: null };
+    }
+}
+
+/**
+ * The workflow a feature directory selects in its feature.yml, if any
+ */
+export async function readFeatureWorkflow(fileSystem: SpecFileSystem, directory: string): Promise<string | null> {
+    return (await readFeatureSettings(fileSystem, directory)).workflow;
+}
+
+export function serializeFeatureSettings(settings: FeatureSettings): string {
+    const lines: string[] = [];
+    if (settings.workflow) {
+        lines.push(`workflow: ${settings.workflow}`);
+    }
+    if (settings.abandoned) {
+        lines.push('status: abandoned', `reason: ${JSON.stringify(settings.abandoned.reason)}`);
+        if (settings.abandoned.date) {
+            lines.push(`abandonedAt: ${JSON.stringify(settings.abandoned.date)}`);
+        }
+    }
+    return lines.map(line => `${line}\n`).join('');
+}
+
+/**
+ * Layout of a feature following the named workflow, or the default workflow when it is unknown
+ */
+export function getWorkflowLayout(layout: SpecLayout, definitions: SpecWorkflowDefinitions, workflowName?: string | null): SpecLayout {
+    const workflow = definitions.workflows.find(candidate => candidate.name === workflowName) ??
+        definitions.workflows.find(candidate => candidate.name === definitions.defaultWorkflow) ??
+        definitions.workflows[0];
+    return { ...layout, workflow: workflow.name, phases: workflow.phases, taskPrompt: workflow.taskPrompt };
+}
+
+// ===== STEERING =====
+
+/**
+ * Inclusion rule of a steering document's front-matter: "always" (the default), "manual", or
+ * "fileMatch:<glob>" (also written "fileMatch" with a separate fileMatchPattern). Null when invalid
+ */
+export function getSteeringInclusion(data: Record<string, unknown>): SteeringInclusion | null {
+    const inclusion = typeof data.inclusion === 'string' ? data.inclusion.trim() : 'always';
+    if (inclusion === 'always' || inclusion === 'manual') {
+        return { mode: inclusion, pattern: null };
+    }
+
+    const match = inclusion.match(/^fileMatch\s*(?::\s*(.+))?$/);
+    const pattern = match?.[1] ?? (typeof data.fileMatchPattern === 'string' ? data.fileMatchPattern : null);
+    return match && pattern ? { mode: 'fileMatch', pattern: pattern.trim() } : null;
+}
+
+// ===== FEATURE MODEL =====
+
+// Directory below the specs root holding archived features, which are not listed as features
+export const ARCHIVE_DIRECTORY = '_archive';
+
+export function joinSpecPath(directory: string, name: string): string {
+    return `${directory.replace(/[\/\\]+$/, '')}/${name}`;
+}
+
+/**
+ * Names of the feature directories below a specs directory, or none when it doesn't exist
+ */
+export async function findFeatures(fileSystem: SpecFileSystem, specsDirectory: string): Promise<string[]> {
+    if (!(await fileSystem.exists(specsDirectory))) {
+        return [];
+    }
+    const entries = await fileSystem.readDirectory(specsDirectory);
+    return entries.filter(entry => entry.isDirectory && entry.name !== ARCHIVE_DIRECTORY).map(entry => entry.name).sort();
+}
+
+/**
+ * Read every phase document of a feature directory and parse its requirements and tasks
+ */
+export async function loadFeature(fileSystem: SpecFileSystem, directory: string, name: string, layout: SpecLayout = DEFAULT_SPEC_LAYOUT): Promise<SpecFeature> {
+    const entries = await fileSystem.readDirectory(directory);
+    const documents: SpecDocument[] = [];
+    for (const entry of entries.filter(entry => !entry.isDirectory && entry.name.endsWith('.md')).sort((a, b) => a.name.localeCompare(b.name))) {
+        const path = joinSpecPath(directory, entry.name);
+        documents.push({ path, phase: getSpecPhase(path, layout), content: await fileSystem.readFile(path) });
+    }
+
+    const paths = documents.map(document => document.path);
+    const phases = layout.phases.map(({ id, file, approval, sections }) => {
+        const path = findPhaseFile(paths, id, layout);
+        const document = documents.find(candidate => candidate.path === path) ?? null;
+        return {
+            phase: id,
+            file,
+            document,
+            approval: document ? getApprovalFromContent(document.content) : null,
+            approvalRequired: approval !== false,
+            missingSections: document ? findMissingSections(document.content, sections ?? []) : sections ?? []
+        };
+    });
+
+    const requirementsDocument = phases.find(state => state.phase === 'requirements')?.document;
+    const tasksDocument = phases.find(state => state.phase === 'tasks')?.document;
+    return {
+        name,
+        workflow: layout.workflow,
+        abandoned: (await readFeatureSettings(fileSystem, directory)).abandoned,
+        directory,
+        documents,
+        phases,
+        requirements: requirementsDocument ? parseRequirementsFromContent(requirementsDocument.content) : [],
+        tasks: tasksDocument ? parseTasksFromContent(tasksDocument.content) : []
+    };
+}
+
+/**
+ * Required headings that a document lacks, compared case-insensitively
+ */
+export function findMissingSections(content: string, sections: string[]): string[] {
+    const headings = new Set([...content.matchAll(/^#{1,6}\s+(.+?)\s*#*\s*$/gm)].map(match => match[1].toLowerCase()));
+    return sections.filter(section => !headings.has(section.trim().toLowerCase()));
+}
+
+/**
+ * A phase is complete once its document exists, has every required section and is approved
+ * when the workflow asks for approval
+ */
+export function isPhaseComplete(state: SpecPhaseState): boolean {
+    return state.document !== null && state.missingSections.length === 0 &&
+        (!state.approvalRequired || state.approval?.status === 'approved');
+}
+
+/**
+ * A feature is complete once every phase is complete and every task is checked
+ */
+export function isFeatureComplete(feature: SpecFeature): boolean {
+    return feature.phases.every(isPhaseComplete) &&
+        feature.tasks.every(task => task.completed);
+}
+
+/**
+ * The first phase that is not complete ("requirements", "design", "tasks" by default),
+ * then "implementation" while tasks are open, then "complete". Abandoned features are "abandoned"
+ */
+export function getCurrentPhase(feature: SpecFeature): string {
+    if (feature.abandoned) {
+        return 'abandoned';
+    }
+    const pending = feature.phases.find(state => !isPhaseComplete(state));
+    if (pending) {
+        return pending.phase;
+    }
+    return feature.tasks.some(task => !task.completed) ? 'implementation' : 'complete';
+}
+
+/**
+ * The task to implement next: the first open task, descending into parents
+ */
+export function getNextTask(feature: SpecFeature): TaskItem | null {
+    const next = feature.tasks.find(task => !task.completed);
+    return next ? feature.tasks[findStartableTaskIndex(feature.tasks, next.index)] : null;
+}
+
+// ===== VALIDATION =====
+
+/**
+ * Structural problems (malformed) and outstanding work (incomplete) of a feature
+ */
+export function validateFeature(feature: SpecFeature): SpecIssue[] {
+    const issues: SpecIssue[] = [];
+
+    for (const { phase: name, file, document, approval, approvalRequired, missingSections } of feature.phases) {
+        const title = name.charAt(0).toUpperCase() + name.slice(1);
+        if (!document || !approval) {
+            issues.push({ kind: 'incomplete', message: `Missing ${name} document (${file})` });
+            continue;
+        }
+
+        const path = document.path;
+        const { content, data } = parseFrontMatter(document.content);
+        if (/^---\r?\n/.test(document.content) && content === document.content) {
+            issues.push({ kind: 'malformed', message: 'Front-matter is not terminated by a "---" line', path, line: 0 });
+        }
+        if (data.approval && !['approved', 'changes-requested', 'pending'].includes(data.approval)) {
+            issues.push({ kind: 'malformed', message: `Unknown approval state "${data.approval}"`, path, line: 0 });
+        }
+
+        for (const section of missingSections) {
+            issues.push({ kind: 'incomplete', message: `${title} has no "${section}" section`, path, line: 0 });
+        }
+
+        if (approval.status === 'approved' && !data.contentHash) {
+            issues.push({ kind: 'malformed', message: `${title} is approved without a content hash`, path, line: 0 });
+        } else if (!approvalRequired) {
+            continue;
+        } else if (approval.modifiedSinceApproval) {
+            issues.push({ kind: 'incomplete', message: `${title} changed since it was approved by ${approval.approver ?? 'unknown'}`, path, line: 0 });
+        } else if (approval.status === 'changes-requested') {
+            const comment = approval.comment ? `: ${approval.comment}` : '';
+            issues.push({ kind: 'incomplete', message: `Changes requested on ${name} by ${approval.reviewer ?? 'unknown'}${comment}`, path, line: 0 });
+        } else if (approval.status === 'pending') {
+            issues.push({ kind: 'incomplete', message: `${title} is not approved`, path, line: 0 });
+        }
+    }
+
+    const requirementsDocument = feature.phases.find(state => state.phase === 'requirements')?.document;
+    if (requirementsDocument) {
+        const path = requirementsDocument.path;
+        if (feature.requirements.length === 0) {
+            issues.push({ kind: 'malformed', message: 'No numbered requirements found', path });
+        }
+        for (const requirement of feature.requirements.filter(requirement => requirement.criteria.length === 0)) {
+            issues.push({ kind: 'malformed', message: `Requirement ${requirement.id} has no acceptance criteria`, path, line: requirement.line });
+        }
+    }
+
+    const tasksDocument = feature.phases.find(state => state.phase === 'tasks')?.document;
+    if (tasksDocument) {
+        const path = tasksDocument.path;
+        const { tasks } = feature;
+        if (tasks.length === 0) {
+            issues.push({ kind: 'malformed', message: 'No tasks found', path });
+        }
+
+        const requireReferences = feature.phases.some(state => state.phase === 'requirements');
+        for (const issue of lintTaskPlan(tasksDocument.content, requireReferences)) {
+            issues.push({ kind: 'malformed', message: issue.message, path, line: issue.line });
+        }
+
+        for (const task of tasks.filter(task => task.completed && task.children.some(child => !tasks[child].completed))) {
+            issues.push({ kind: 'malformed', message: `Task ${getTaskLabel(task)} is checked but has open sub-tasks`, path, line: task.line });
+        }
+
+        if (requirementsDocument) {
+            for (const { task, reference } of buildTraceabilityReport(feature.name, feature.requirements, tasks).danglingReferences) {
+                issues.push({ kind: 'malformed', message: `Task ${getTaskLabel(task)} references unknown requirement ${reference}`, path, line: task.line });
+            }
+        }
+
+        for (const task of tasks.filter(task => !task.completed && task.children.length === 0)) {
+            issues.push({ kind: 'incomplete', message: `Task ${getTaskLabel(task)} is not completed`, path, line: task.line });
+        }
+    }
+
+    return issues;
+}
+
+// ===== EXPORT =====
+
+/**
+ * Markdown traceability report: completion per requirement, uncovered criteria and unknown
+ * references. Headings start at the given level so the report can be embedded in a bundle
+ */
+export function formatTraceabilityReport(report: TraceabilityReport, level = 1): string {
+    const heading = '#'.repeat(level);
+    const lines: string[] = [
+        `${heading} Traceability: ${report.feature}`,
+        '',
+        `${heading}# Requirement Completion`,
+        '',
+        '| Requirement | Title | Tasks | Completed |',
+        '| --- | --- | --- | --- |'
+    ];
+
+    for (const { requirement, tasks, completedTasks } of report.coverage) {
+        const taskLabels = tasks.map(task => getTaskLabel(task)).join(', ') || '—';
+        const percent = tasks.length > 0 ? Math.round((completedTasks / tasks.length) * 100) : 0;
+        lines.push(`| ${requirement.id} | ${requirement.title || '—'} | ${taskLabels} | ${completedTasks}/${tasks.length} (${percent}%) |`);
+    }
+
+    lines.push('', `${heading}# Uncovered Acceptance Criteria`, '');
+    if (report.uncoveredCriteria.length === 0) {
+        lines.push('Every acceptance criterion is referenced by at least one task.');
+    } else {
+        lines.push(...report.uncoveredCriteria.map(criterion => `- **${criterion.id}** ${criterion.text}`));
+    }
+
+    lines.push('', `${heading}# Unknown Requirement References`, '');
+    if (report.danglingReferences.length === 0) {
+        lines.push('Every task references existing requirements.');
+    } else {
+        lines.push(...report.danglingReferences.map(({ task, reference }) => `- Task ${getTaskLabel(task)} references **${reference}**: ${task.text}`));
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function describeApproval(state: SpecPhaseState): string {
+    const { approval } = state;
+    if (!state.document || !approval) {
+        return 'missing';
+    }
+    if (approval.status === 'approved') {
+        const by = [approval.approver && `by ${approval.approver}`, approval.approvedAt && `on ${approval.approvedAt.slice(0, 10)}`].filter(Boolean).join(' ');
+        return `approved${by ? ` ${by}` : ''}${approval.modifiedSinceApproval ? ', changed since' : ''}`;
+    }
+    if (approval.status === 'changes-requested') {
+        return `changes requested${approval.reviewer ? ` by ${approval.reviewer}` : ''}`;
+    }
+    return state.approvalRequired ? 'awaiting approval' : 'no approval required';
+}
+
+/**
+ * A feature as one Markdown document for readers outside the editor: metadata, a table of contents,
+ * every phase document in workflow order, task completion and the traceability report
+ */
+export function formatSpecBundle(feature: SpecFeature, exportedAt: string): string {
+    const title = (phase: string) => phase.charAt(0).toUpperCase() + phase.slice(1);
+    const completedTasks = feature.tasks.filter(task => task.completed).length;
+    const lines: string[] = [`# Specification: ${feature.name}`, ''];
+
+    lines.push('| | |', '| --- | --- |');
+    lines.push(`| Workflow | ${escapeTableCell(feature.workflow)} |`);
+    lines.push(`| Status | ${getCurrentPhase(feature)} |`);
+    if (feature.abandoned) {
+        lines.push(`| Abandoned | ${escapeTableCell(feature.abandoned.reason)}${feature.abandoned.date ? ` (${feature.abandoned.date.slice(0, 10)})` : ''} |`);
+    }
+    lines.push(`| Completed tasks | ${completedTasks}/${feature.tasks.length} |`);
+    for (const state of feature.phases) {
+        lines.push(`| ${title(state.phase)} | ${escapeTableCell(describeApproval(state))} |`);
+    }
+    lines.push(`| Exported | ${exportedAt} |`, '');
+
+    // Explicit anchors keep the links working whatever heading slugs the renderer generates
+    const sections = [
+        ...feature.phases.map(state => ({ id: `phase-${state.phase}`, title: title(state.phase) })),
+        { id: 'task-status', title: 'Task Status' },
+        { id: 'traceability', title: 'Traceability' }
+    ];
+    lines.push('## Contents', '', ...sections.map(section => `- [${section.title}](#${section.id})`), '');
+
+    for (const state of feature.phases) {
+        lines.push(`<a id="phase-${state.phase}"></a>`, '', `## ${title(state.phase)}`, '');
+        if (!state.document) {
+            lines.push(`*${state.file} has not been written yet.*`, '');
+            continue;
+        }
+        // Phase documents start at "#"; nest their headings below the phase heading
+        const { content } = parseFrontMatter(state.document.content);
+        let inFence = false;
+        for (const line of content.trim().split(/\r?\n/)) {
+            if (/^\s*(```|~~~)/.test(line)) {
+                inFence = !inFence;
+            }
+            const heading = !inFence && line.match(/^(#{1,6})(\s.*)$/);
+            lines.push(heading ? `${'#'.repeat(Math.min(heading[1].length + 2, 6))}${heading[2]}` : line);
+        }
+        lines.push('');
+    }
+
+    lines.push('<a id="task-status"></a>', '', '## Task Status', '');
+    if (feature.tasks.length === 0) {
+        lines.push('No tasks have been planned yet.', '');
+    } else {
+        lines.push('| Task | Description | Status | Requirements |', '| --- | --- | --- | --- |');
+        for (const task of feature.tasks) {
+            const description = task.text.replace(/^\d+(?:\.\d+)*\.?\s+/, '').replace(/_?Requirements?\s*:.*$/i, '').trim();
+            lines.push(`| ${getTaskLabel(task)} | ${escapeTableCell(description)} | ${task.completed ? '✅ done' : '⬜ open'} | ${task.requirements.join(', ') || '—'} |`);
+        }
+        lines.push('');
+    }
+
+    lines.push('<a id="traceability"></a>', '');
+    lines.push(formatTraceabilityReport(buildTraceabilityReport(feature.name, feature.requirements, feature.tasks), 2));
+    return lines.join('\n');
+}
+
+/**
+ * The parsed model of a feature as plain data for other tools. Document paths are relative to the
+ * feature directory and front-matter is reported as approvals rather than text
+ */
+export function buildSpecExport(feature: SpecFeature, exportedAt: string): Record<string, unknown> {
+    const report = buildTraceabilityReport(feature.name, feature.requirements, feature.tasks);
+    return {
+        feature: feature.name,
+        workflow: feature.workflow,
+        exportedAt,
+        currentPhase: getCurrentPhase(feature),
+        complete: isFeatureComplete(feature),
+        abandoned: feature.abandoned,
+        phases: feature.phases.map(state => ({
+            phase: state.phase,
+            file: state.file,
+            exists: state.document !== null,
+            approvalRequired: state.approvalRequired,
+            approval: state.approval,
+            missingSections: state.missingSections,
+            content: state.document ? parseFrontMatter(state.document.content).content : null
+        })),
+        requirements: feature.requirements,
+        tasks: feature.tasks.map(({ index, number, text, completed, parent, children, requirements, commit, verify }) => ({
+            index, label: number ?? String(index + 1), text, completed, parent, children, requirements, commit, verify
+        })),
+        traceability: {
+            coverage: report.coverage.map(({ requirement, tasks, completedTasks }) => ({
+                requirement: requirement.id,
+                tasks: tasks.map(getTaskLabel),
+                completedTasks
+            })),
+            uncoveredCriteria: report.uncoveredCriteria.map(criterion => criterion.id),
+            danglingReferences: report.danglingReferences.map(({ task, reference }) => ({ task: getTaskLabel(task), reference }))
+        },
+        issues: validateFeature(feature).map(({ path, ...issue }) => ({ ...issue, file: path ? path.split(/[\/\\]/).pop() : undefined }))
+    };
+}
+
+// /////////////////////////////////////////////////////////////////////////////
+// Code ends here
@@ -0,0 +1,209 @@
+// Version: $Id:  $
+//
+//
+
+// Commentary:
+//
+// Tests of the codep command line over in-memory and temporary specifications, run with the
+// Node test runner: npm test
+
+// Changelog:
+//
+//
+
+//
+// Code starts here
+// /////////////////////////////////////////////////////////////////////////////
+
+import * as assert from 'assert';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it } from 'node:test';
+import { main, parseArguments, readSpecLayout, status, validate } from '../cli';
+import {
+    DEFAULT_SPEC_LAYOUT,
+    SpecFeature,
+    SpecFileSystem,
+    getCurrentPhase,
+    hashContent,
+    loadFeature,
+    serializeFrontMatter,
+    validateFeature
+} from '../specCore';
+
+const REQUIREMENTS = [
+    '# Requirements',
+    '',
+    '### Requirement 1: Sign-in',
+    '',
+    '**User Story:** As a user, I want to sign in, so that my work is saved',
+    '',
+    '#### Acceptance Criteria',
+    '',
+    '1. WHEN the password is right THEN the system SHALL open a session',
+    ''
+].join('\n');
+
+const DESIGN = '# Design\n\nSessions are kept in a signed cookie.\n';
+
+const TASKS = '# Implementation Plan\n\n- [x] 1. Open a session on sign-in\n  - _Requirements: 1.1_\n';
+
+function approved(body: string): string {
+    return serializeFrontMatter({ approval: 'approved', approver: 'ann', contentHash: hashContent(body) }, body);
+}
+
+// A finished feature, one waiting for its design and one abandoned before it was written
+const FILES: Record<string, string> = {
+    '/repo/specs/done/01-requirements.md': approved(REQUIREMENTS),
+    '/repo/specs/done/02-design.md': approved(DESIGN),
+    '/repo/specs/done/03-tasks.md': approved(TASKS),
+    '/repo/specs/open/01-requirements.md': approved(REQUIREMENTS),
+    '/repo/specs/dropped/01-requirements.md': REQUIREMENTS,
+    '/repo/specs/dropped/feature.yml': 'status: abandoned\nreason: "Replaced by single sign-on"\n'
+};
+
+function memoryFileSystem(files: Record<string, string>): SpecFileSystem {
+    const paths = Object.keys(files);
+    return {
+        readFile: async filePath => {
+            if (!(filePath in files)) {
+                throw new Error(`ENOENT: ${filePath}`);
+            }
+            return files[filePath];
+        },
+        readDirectory: async directory => {
+            const entries = new Map<string, boolean>();
+            for (const filePath of paths.filter(candidate => candidate.startsWith(`${directory}/`))) {
+                const [name, ...rest] = filePath.slice(directory.length + 1).split('/');
+                entries.set(name, rest.length > 0);
+            }
+            return [...entries].map(([name, isDirectory]) => ({ name, isDirectory }));
+        },
+        exists: async filePath => paths.some(candidate => candidate === filePath || candidate.startsWith(`${filePath}/`))
+    };
+}
+
+async function loadFeatures(files: Record<string, string>, ...names: string[]): Promise<SpecFeature[]> {
+    const fileSystem = memoryFileSystem(files);
+    return Promise.all(names.map(name => loadFeature(fileSystem, `/repo/specs/${name}`, name)));
+}
+
+/**
+ * Run a command with its console output captured instead of printed
+ */
+async function quietly<T>(run: () => T | Promise<T>): Promise<{ result: T; output: string[] }> {
+    const output: string[] = [];
+    const { log, error } = console;
+    console.log = console.error = (...args: unknown[]) => {
+        output.push(args.join(' '));
+    };
+    try {
+        return { result: await run(), output };
+    } finally {
+        console.log = log;
+        console.error = error;
+    }
+}
+
+describe('feature validation', () => {
+    it('finds no issues in a finished feature', async () => {
+        const [done] = await loadFeatures(FILES, 'done');
+        assert.strictEqual(getCurrentPhase(done), 'complete');
+        assert.deepStrictEqual(validateFeature(done), []);
+    });
+
+    it('reports missing documents as incomplete', async () => {
+        const [open] = await loadFeatures(FILES, 'open');
+        assert.strictEqual(getCurrentPhase(open), 'design');
+        assert.deepStrictEqual(validateFeature(open), [
+            { kind: 'incomplete', message: 'Missing design document (02-design.md)' },
+            { kind: 'incomplete', message: 'Missing tasks document (03-tasks.md)' }
+        ]);
+    });
+
+    it('reports unknown references and edits after approval', async () => {
+        const tasks = TASKS.replace('_Requirements: 1.1_', '_Requirements: 1.1, 4_');
+        const [done] = await loadFeatures({ ...FILES, '/repo/specs/done/03-tasks.md': approved(TASKS).replace(TASKS, tasks) }, 'done');
+        assert.deepStrictEqual(validateFeature(done).map(issue => [issue.kind, issue.message, issue.line]), [
+            ['incomplete', 'Tasks changed since it was approved by ann', 0],
+            ['malformed', 'Task 1 references unknown requirement 4', 7]
+        ]);
+    });
+});
+
+describe('command line', () => {
+    const options = parseArguments(['status', '--root', '/repo']);
+
+    it('passes status only when every feature is complete or abandoned', async () => {
+        assert.strictEqual((await quietly(async () => status(await loadFeatures(FILES, 'done', 'dropped'), options))).result, 0);
+        assert.strictEqual((await quietly(async () => status(await loadFeatures(FILES, 'done', 'open'), options))).result, 1);
+    });
+
+    it('prints the phase of each feature as JSON', async () => {
+        const { output } = await quietly(async () => status(await loadFeatures(FILES, 'done', 'dropped', 'open'), { ...options, json: true }));
+        assert.deepStrictEqual(JSON.parse(output.join('\n')).map((row: { feature: string; phase: string }) => [row.feature, row.phase]),
+            [['done', 'complete'], ['dropped', 'abandoned'], ['open', 'design']]);
+    });
+
+    it('fails validation on incomplete features but not on abandoned ones', async () => {
+        const passed = await quietly(async () => validate(await loadFeatures(FILES, 'done', 'dropped'), options, DEFAULT_SPEC_LAYOUT));
+        assert.strictEqual(passed.result, 0);
+        assert.deepStrictEqual(passed.output, ['2 feature(s) checked: 0 malformed, 0 incomplete']);
+
+        const failed = await quietly(async () => validate(await loadFeatures(FILES, 'open'), options, DEFAULT_SPEC_LAYOUT));
+        assert.strictEqual(failed.result, 1);
+        assert.strictEqual(failed.output[0], '.github/specs/open: incomplete: Missing design document (02-design.md)');
+    });
+
+    it('exits with 2 on usage errors', async () => {
+        for (const args of [[], ['publish'], ['status', '--root'], ['status', '--verbose']]) {
+            const { result, output } = await quietly(() => main(args));
+            assert.strictEqual(result, 2, args.join(' '));
+            assert.match(output[0], /^codep: .+\n\nUsage: codep/);
+        }
+        assert.strictEqual((await quietly(() => main(['--help']))).result, 0);
+    });
+});
+
+describe('workspace settings', () => {
+    it('reads the layout from settings with comments and trailing commas', async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'codep-'));
+        try {
+            await fs.mkdir(path.join(root, '.vscode'));
+            await fs.writeFile(path.join(root, '.vscode', 'settings.json'), [
+                '{',
+                '    // Specifications live with the documentation',
+                '    "codep.specsRoot": "docs/specs/",',
+                '    /* The prompt keeps its "//" */',
+                '    "codep.taskPrompt": "/implement // task",',
+                '}',
+                ''
+            ].join('\n'));
+
+            const layout = await readSpecLayout(parseArguments(['status', '--root', root]));
+            assert.strictEqual(layout.specsRoot, 'docs/specs');
+            assert.strictEqual(layout.taskPrompt, '/implement // task');
+            assert.deepStrictEqual(layout.phases, DEFAULT_SPEC_LAYOUT.phases);
+            assert.strictEqual((await readSpecLayout(parseArguments(['status', '--root', root, '--specs-root', 'specs']))).specsRoot, 'specs');
+
+            // The command finds the finished feature below the configured specs root
+            for (const [filePath, content] of Object.entries(FILES).filter(([filePath]) => filePath.startsWith('/repo/specs/done/'))) {
+                const target = path.join(root, 'docs', filePath.slice('/repo/'.length));
+                await fs.mkdir(path.dirname(target), { recursive: true });
+                await fs.writeFile(target, content);
+            }
+            assert.strictEqual((await quietly(() => main(['validate', '--root', root]))).result, 0);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    it('uses the defaults without settings', async () => {
+        const layout = await readSpecLayout(parseArguments(['status', '--root', path.join(os.tmpdir(), 'codep-missing')]));
+        assert.strictEqual(layout.specsRoot, DEFAULT_SPEC_LAYOUT.specsRoot);
+    });
+});
+
+// /////////////////////////////////////////////////////////////////////////////
+// Code ends here
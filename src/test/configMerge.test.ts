@@ -0,0 +1,65 @@
+// Version: $Id:  $
+//
+//
+
+// Commentary:
+//
+// Tests of the three-way configuration update, run with the Node test runner: npm test
+
+// Changelog:
+//
+//
+
+//
+// Code starts here
+// /////////////////////////////////////////////////////////////////////////////
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { mergeThreeWay, planConfigUpdate } from '../configMerge';
+
+const BASELINE = ['# Instructions', '', 'Use TypeScript.', 'Write tests.', ''].join('\n');
+
+describe('configuration update', () => {
+    it('takes a clean upstream change', () => {
+        const bundled = BASELINE.replace('Write tests.', 'Write unit tests.');
+        assert.strictEqual(planConfigUpdate(BASELINE, bundled, BASELINE), 'update');
+        assert.deepStrictEqual(mergeThreeWay(BASELINE, BASELINE, bundled), { text: bundled, conflicts: 0 });
+    });
+
+    it('keeps a local-only edit', () => {
+        const local = BASELINE.replace('Use TypeScript.', 'Use TypeScript 5.');
+        assert.strictEqual(planConfigUpdate(BASELINE, BASELINE, local), 'local');
+        assert.deepStrictEqual(mergeThreeWay(BASELINE, local, BASELINE), { text: local, conflicts: 0 });
+    });
+
+    it('merges edits to separate lines', () => {
+        const local = BASELINE.replace('# Instructions', '# Project instructions');
+        const bundled = BASELINE.replace('Write tests.', 'Write unit tests.');
+        assert.strictEqual(planConfigUpdate(BASELINE, bundled, local), 'merge');
+        assert.deepStrictEqual(mergeThreeWay(BASELINE, local, bundled), {
+            text: local.replace('Write tests.', 'Write unit tests.'),
+            conflicts: 0
+        });
+    });
+
+    it('marks overlapping edits as a conflict', () => {
+        const local = BASELINE.replace('Write tests.', 'Write integration tests.');
+        const bundled = BASELINE.replace('Write tests.', 'Write unit tests.');
+        const merged = mergeThreeWay(BASELINE, local, bundled);
+        assert.strictEqual(merged.conflicts, 1);
+        assert.strictEqual(merged.text, [
+            '# Instructions', '', 'Use TypeScript.',
+            '<<<<<<< Workspace', 'Write integration tests.', '=======', 'Write unit tests.', '>>>>>>> Code:P bundle',
+            ''
+        ].join('\n'));
+    });
+
+    it('reports a modified file without a baseline as a conflict', () => {
+        assert.strictEqual(planConfigUpdate(undefined, BASELINE, 'Custom instructions\n'), 'conflict');
+        assert.strictEqual(planConfigUpdate(undefined, BASELINE, `${BASELINE}\n`), 'unchanged');
+    });
+});
+
+// /////////////////////////////////////////////////////////////////////////////
+// Code ends here
@@ -0,0 +1,258 @@
+// Version: $Id:  $
+//
+//
+
+// Commentary:
+//
+// Tests of the headless spec core, run with the Node test runner: npm test
+
+// Changelog:
+//
+//
+
+//
+// Code starts here
+// /////////////////////////////////////////////////////////////////////////////
+
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import {
+    DEFAULT_SPEC_LAYOUT,
+    buildTraceabilityReport,
+    classifyEarsCriterion,
+    findRequirementReferences,
+    isUserStory,
+    lintTaskPlan,
+    normalizeTaskCheckbox,
+    parseRequirementReferences,
+    parseRequirementsFromContent,
+    parseTasksFromContent,
+    parseWorkflowDefinitions,
+    parseYaml,
+    uppercaseEarsKeywords
+} from '../specCore';
+
+// ===== TASK PLAN =====
+
+const PLAN_WITH_CODE_SAMPLE = [
+    '# Implementation Plan',
+    '',
+    '- [x] 1. Set up the project',
+    '  - _Requirements: 1.1_',
+    '- [ ] 2. Add the parser',
+    '  - [ ] 2.1 Parse checklists',
+    '    - Checklists in samples such as the one below are not tasks:',
+    '',
+    '      ```markdown',
+    '      - [X] example',
+    '      ```',
+    '',
+    '    - _Requirements: 2.1, 2.2_',
+    ''
+].join('\n');
+
+describe('task plan', () => {
+    it('skips checklists in fenced code blocks', () => {
+        const tasks = parseTasksFromContent(PLAN_WITH_CODE_SAMPLE);
+        assert.deepStrictEqual(tasks.map(task => task.number), ['1', '2', '2.1']);
+        assert.deepStrictEqual(tasks[2].requirements, ['2.1', '2.2']);
+    });
+
+    it('takes requirement references only from detail lines under the task', () => {
+        const tasks = parseTasksFromContent('- [ ] 1. Task\n  - verify: `npm test`\nNot a detail _Requirements: 3_\n\n## Notes\n\n  _Requirements: 9.9_\n');
+        assert.deepStrictEqual(tasks[0].requirements, []);
+        assert.strictEqual(tasks[0].verify, 'npm test');
+        assert.deepStrictEqual(lintTaskPlan('- [ ] 1. Task\n\n## Notes\n_Requirements: 9.9_').map(issue => issue.code), ['task-requirements']);
+    });
+
+    it('counts only numbered checkboxes as tasks in a numbered plan', () => {
+        const plan = '- [ ] 1. Task _Requirements: 1_\n\n## Review checklist\n\n- [ ] Tests pass\n';
+        assert.deepStrictEqual(parseTasksFromContent(plan).map(task => task.text), ['1. Task _Requirements: 1_']);
+        assert.deepStrictEqual(lintTaskPlan(plan).map(issue => [issue.code, issue.line]), [['task-number', 4]]);
+        assert.deepStrictEqual(parseTasksFromContent('- [ ] First\n- [x] Second').map(task => task.completed), [false, true]);
+    });
+
+    it('reports no issues for a well-formed plan with a code sample', () => {
+        assert.deepStrictEqual(lintTaskPlan(PLAN_WITH_CODE_SAMPLE), []);
+    });
+
+    it('reports checkbox variants but not the spacing after the checkbox', () => {
+        assert.strictEqual(normalizeTaskCheckbox('- [ ]  1. Task'), '- [ ]  1. Task');
+        assert.strictEqual(normalizeTaskCheckbox('* [X]1. Task'), '- [x] 1. Task');
+        assert.deepStrictEqual(lintTaskPlan('- [ ]  1. Task _Requirements: 1_\n-[X] 2. Task _Requirements: 1_').map(issue => [issue.code, issue.line]), [['task-checkbox', 1]]);
+    });
+});
+
+// ===== REQUIREMENT REFERENCES =====
+
+const REQUIREMENTS = [
+    '# Requirements',
+    '',
+    '### Requirement 1: Sign-in',
+    '',
+    '**User Story:** As a user, I want to sign in, so that my work is saved',
+    '',
+    '#### Acceptance Criteria',
+    '',
+    '1. WHEN the password is right THEN the system SHALL open a session',
+    '2. IF the password is wrong THEN the system SHALL refuse the session',
+    '3. The system SHALL lock the account after five failures',
+    '',
+    '### Requirement 2: Sign-out',
+    '',
+    '**User Story:** As a user, I want to sign out, so that nobody else uses my session',
+    '',
+    '#### Acceptance Criteria',
+    '',
+    '1. WHEN the user signs out THEN the system SHALL end the session',
+    ''
+].join('\n');
+
+describe('requirement references', () => {
+    it('parses lists of requirements and criteria', () => {
+        assert.deepStrictEqual(parseRequirementReferences('  - _Requirements: 1.2, 3.1, 4_'), ['1.2', '3.1', '4']);
+        assert.deepStrictEqual(parseRequirementReferences('Requirement: 2'), ['2']);
+        assert.deepStrictEqual(parseRequirementReferences('No citation 1.2'), []);
+    });
+
+    it('expands ranges of sibling criteria', () => {
+        assert.deepStrictEqual(parseRequirementReferences('_Requirements: 1.1-1.3, 2.1_'), ['1.1', '1.3', '1.2', '2.1']);
+        assert.deepStrictEqual(parseRequirementReferences('_Requirements: 2.1\u20132.2_'), ['2.1', '2.2']);
+        assert.deepStrictEqual(parseRequirementReferences('_Requirements: 1.3-2.1_'), ['1.3', '2.1']);
+    });
+
+    it('locates each reference on its line, also with CRLF line ends', () => {
+        assert.deepStrictEqual(findRequirementReferences('- [ ] 1. Task\r\n  - _Requirements: 1.2, 3_\r\n'), [
+            { id: '1.2', line: 1, start: 19, end: 22 },
+            { id: '3', line: 1, start: 24, end: 25 }
+        ]);
+        assert.deepStrictEqual(findRequirementReferences('Requirements: 1.1-1.3').map(({ id, start, end }) => [id, start, end]),
+            [['1.1', 14, 17], ['1.3', 18, 21], ['1.2', 14, 21]]);
+    });
+
+    it('reports coverage, uncovered criteria and dangling references', () => {
+        const tasks = parseTasksFromContent([
+            '- [x] 1. Sign-in',
+            '  - _Requirements: 1.1-1.2_',
+            '- [ ] 2. Sign-out',
+            '  - _Requirements: 2, 9.1_',
+            ''
+        ].join('\n'));
+        const report = buildTraceabilityReport('auth', parseRequirementsFromContent(REQUIREMENTS), tasks);
+
+        assert.deepStrictEqual(report.coverage.map(({ requirement, tasks: citing, completedTasks }) => [requirement.id, citing.map(task => task.number), completedTasks]),
+            [['1', ['1'], 1], ['2', ['2'], 0]]);
+        assert.deepStrictEqual(report.uncoveredCriteria.map(criterion => criterion.id), ['1.3']);
+        assert.deepStrictEqual(report.danglingReferences.map(({ task, reference }) => [task.number, reference]), [['2', '9.1']]);
+    });
+});
+
+// ===== EARS =====
+
+describe('EARS requirements', () => {
+    it('classifies acceptance criteria by EARS pattern', () => {
+        assert.strictEqual(classifyEarsCriterion('The system SHALL log every sign-in'), 'ubiquitous');
+        assert.strictEqual(classifyEarsCriterion('WHEN the user signs in THEN the system SHALL record the time'), 'event-driven');
+        assert.strictEqual(classifyEarsCriterion('WHILE offline the app SHALL queue changes'), 'state-driven');
+        assert.strictEqual(classifyEarsCriterion('IF the token expired THEN the server SHALL reject the request'), 'unwanted-behaviour');
+        assert.strictEqual(classifyEarsCriterion('WHERE audit logging is enabled the system SHALL keep events'), 'optional-feature');
+        assert.strictEqual(classifyEarsCriterion('**WHEN** a user signs out THEN the session **SHALL** end'), 'event-driven');
+    });
+
+    it('rejects criteria without SHALL', () => {
+        assert.strictEqual(classifyEarsCriterion('WHEN the user signs in THEN the system should record the time'), null);
+        assert.strictEqual(classifyEarsCriterion('Sign-ins are logged'), null);
+    });
+
+    it('uppercases the EARS keywords only', () => {
+        assert.strictEqual(uppercaseEarsKeywords('when a user signs in then the system shall log when it happened'),
+            'WHEN a user signs in THEN the system SHALL log when it happened');
+    });
+
+    it('recognises user stories', () => {
+        assert.strictEqual(isUserStory('As a developer, I want specs, so that work is traceable'), true);
+        assert.strictEqual(isUserStory('As an _admin_ I want audits so that I can review access'), true);
+        assert.strictEqual(isUserStory('Developers need specs'), false);
+    });
+});
+
+// ===== WORKFLOWS =====
+
+const WORKFLOWS = [
+    '# Workflows of this repository',
+    'default: lite',
+    'workflows:',
+    '  full:',
+    '    description: "Requirements, design and tasks"',
+    '    phases:',
+    '      - id: requirements',
+    '        file: 01-requirements.md',
+    '        prompt: /spec01',
+    '      - id: design',
+    '        file: 02-design.md',
+    '        sections: [Architecture, Testing]',
+    '      - id: tasks',
+    '        file: 03-tasks.md',
+    '  lite:',
+    '    taskPrompt: /quick',
+    '    phases:',
+    '      - id: tasks',
+    '        file: tasks.md',
+    '        approval: false',
+    '  broken:',
+    '    phases: []',
+    ''
+].join('\n');
+
+describe('workflows', () => {
+    it('parses the YAML subset of workflow files', () => {
+        assert.deepStrictEqual(parseYaml([
+            'name: demo # comment',
+            'count: 3',
+            'enabled: true',
+            'empty:',
+            'tags: [a, "b c"]',
+            'quoted: "# not a comment"',
+            'list:',
+            '  - one',
+            '  - two: 2',
+            '    three: 3'
+        ].join('\n')), {
+            name: 'demo',
+            count: 3,
+            enabled: true,
+            empty: null,
+            tags: ['a', 'b c'],
+            quoted: '# not a comment',
+            list: ['one', { two: 2, three: 3 }]
+        });
+        assert.deepStrictEqual(parseYaml('version: 1.0\r\nflag: true\r\n', 'text'), { version: '1.0', flag: 'true' });
+    });
+
+    it('reports the line of invalid YAML', () => {
+        assert.throws(() => parseYaml('a: 1\n   b: 2'), /line 2: unexpected indentation/);
+        assert.throws(() => parseYaml('a: 1\nno colon'), /line 2: expected "key: value"/);
+    });
+
+    it('reads named workflows and leaves out broken ones', () => {
+        const definitions = parseWorkflowDefinitions(WORKFLOWS, DEFAULT_SPEC_LAYOUT);
+        assert.strictEqual(definitions.defaultWorkflow, 'lite');
+        assert.deepStrictEqual(definitions.errors, ['Workflow "broken" has no phases with an id and a file']);
+        assert.deepStrictEqual(definitions.workflows.map(workflow => [workflow.name, workflow.taskPrompt]), [['full', '/spec04'], ['lite', '/quick']]);
+
+        const [full, lite] = definitions.workflows;
+        assert.strictEqual(full.description, 'Requirements, design and tasks');
+        assert.deepStrictEqual(full.phases[1], { id: 'design', file: '02-design.md', prompt: '', approval: true, sections: ['Architecture', 'Testing'] });
+        assert.strictEqual(lite.phases[0].approval, false);
+    });
+
+    it('falls back to the settings phases without a valid workflow', () => {
+        const definitions = parseWorkflowDefinitions('default: missing\nworkflows:\n', DEFAULT_SPEC_LAYOUT);
+        assert.deepStrictEqual(definitions.workflows.map(workflow => workflow.phases), [DEFAULT_SPEC_LAYOUT.phases]);
+        assert.strictEqual(definitions.defaultWorkflow, 'default');
+        assert.deepStrictEqual(definitions.errors, ['No workflows defined under "workflows:"', 'Default workflow "missing" is not defined']);
+    });
+});
+
+// /////////////////////////////////////////////////////////////////////////////
+// Code ends here
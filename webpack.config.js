@@ -1,4 +1,5 @@
 const path = require('path');
+const webpack = require('webpack');
 
 const nodeConfig = {
   target: 'node',
@@ -47,7 +48,8 @@ const webConfig = {
     extensions: ['.ts', '.js'],
     fallback: {
       path: require.resolve('path-browserify'),
-      fs: false
+      fs: false,
+      child_process: false
     }
   },
   module: {
@@ -72,4 +74,38 @@ const webConfig = {
   devtool: 'nosources-source-map'
 };
 
-module.exports = [nodeConfig, webConfig];
+const cliConfig = {
+  target: 'node',
+  mode: 'none',
+  entry: './src/cli.ts',
+  output: {
+    path: path.resolve(__dirname, 'out'),
+    filename: 'cli.js',
+    libraryTarget: 'commonjs2'
+  },
+  resolve: {
+    extensions: ['.ts', '.js']
+  },
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        exclude: /node_modules/,
+        use: [
+          {
+            loader: 'ts-loader'
+          }
+        ]
+      }
+    ]
+  },
+  plugins: [
+    new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true })
+  ],
+  performance: {
+    hints: false
+  },
+  devtool: 'nosources-source-map'
+};
+
+module.exports = [nodeConfig, webConfig, cliConfig];